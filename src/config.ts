@@ -29,6 +29,10 @@ export interface Config {
   enabledTools: string[];
   /** Use TONL encoding for responses (default: true) */
   useTonl: boolean;
+  /** Maximum request body size (e.g. '25mb'), large enough for base64 attachments */
+  maxRequestBodySize: string;
+  /** Shared/delegated mailboxes tools may act on via `mailbox` (empty = own mailbox only) */
+  sharedMailboxes: string[];
 }
 
 let cachedConfig: Config | null = null;
@@ -61,6 +65,13 @@ export function getConfig(): Config {
     .map(t => t.trim())
     .filter(t => t.length > 0);
 
+  // Parse shared mailbox allowlist from comma-separated string
+  const sharedMailboxesEnv = process.env.MS365_MCP_SHARED_MAILBOXES || '';
+  const sharedMailboxes = sharedMailboxesEnv
+    .split(',')
+    .map(m => m.trim().toLowerCase())
+    .filter(m => m.length > 0);
+
   cachedConfig = {
     clientId,
     clientSecret: process.env.MS365_MCP_CLIENT_SECRET || undefined,
@@ -75,6 +86,8 @@ export function getConfig(): Config {
     readOnlyMode: process.env.MS365_MCP_READ_ONLY_MODE === 'true',
     enabledTools,
     useTonl: process.env.MS365_MCP_USE_TONL !== 'false', // default true
+    maxRequestBodySize: process.env.MS365_MCP_MAX_BODY_SIZE || '25mb',
+    sharedMailboxes,
   };
 
   return cachedConfig;
@@ -105,11 +118,21 @@ export const SUPPORTED_SCOPES = [
   'Mail.Read',
   'Mail.ReadWrite',
   'Mail.Send',
+  'Mail.Read.Shared',
+  'Mail.ReadWrite.Shared',
+  'Mail.Send.Shared',
   'Calendars.Read',
   'Calendars.ReadWrite',
   'Calendars.Read.Shared',
+  'Calendars.ReadWrite.Shared',
   'Place.Read.All',
   'People.Read',
+  'Contacts.Read',
+  'Contacts.ReadWrite',
+  'User.Read.All',
+  'GroupMember.Read.All',
+  'MailboxSettings.Read',
+  'MailboxSettings.ReadWrite',
   'offline_access',
   'User.Read',
 ] as const;
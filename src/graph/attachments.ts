@@ -0,0 +1,274 @@
+/**
+ * Attachment helpers shared by mail messages and calendar events
+ */
+
+import { graphRequest, graphUploadSession, handleGraphResponse, formatToolResponse, type GraphResponse } from './client.js';
+import { stripHtml } from '../utils/html.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Attachments above this size (bytes) are uploaded through an upload session.
+ * Graph rejects requests over 4 MB, so inline attachments must stay below that.
+ */
+export const LARGE_ATTACHMENT_THRESHOLD = 3 * 1024 * 1024;
+
+export interface ResolvedAttachment {
+  name: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Attachment as given to a tool: new file content, or an existing mail attachment to copy
+ */
+export interface AttachmentInput {
+  name?: string;
+  contentType?: string;
+  contentBytes?: string;
+  messageId?: string;
+  attachmentId?: string;
+}
+
+/**
+ * Resolve attachment inputs to raw content
+ * Existing attachments (messageId + attachmentId) are downloaded so they can be re-attached.
+ */
+export async function resolveAttachments(
+  attachments: AttachmentInput[]
+): Promise<ResolvedAttachment[]> {
+  const resolved: ResolvedAttachment[] = [];
+  
+  for (const attachment of attachments) {
+    if (attachment.contentBytes !== undefined) {
+      resolved.push({
+        name: attachment.name || 'attachment',
+        contentType: attachment.contentType || 'application/octet-stream',
+        content: Buffer.from(attachment.contentBytes, 'base64'),
+      });
+      continue;
+    }
+    
+    const response = await graphRequest<{
+      '@odata.type'?: string;
+      name?: string;
+      contentType?: string;
+      contentBytes?: string;
+      error?: { message?: string };
+    }>(`/me/messages/${attachment.messageId}/attachments/${attachment.attachmentId}`);
+    
+    if (!response.ok) {
+      throw new Error(`Could not load attachment ${attachment.attachmentId}: ${response.data?.error?.message || response.status}`);
+    }
+    
+    if (!response.data.contentBytes) {
+      throw new Error(`Attachment ${attachment.attachmentId} is not a file attachment and cannot be re-attached`);
+    }
+    
+    resolved.push({
+      name: attachment.name || response.data.name || 'attachment',
+      contentType: attachment.contentType || response.data.contentType || 'application/octet-stream',
+      content: Buffer.from(response.data.contentBytes, 'base64'),
+    });
+  }
+  
+  return resolved;
+}
+
+/**
+ * Build a Graph fileAttachment payload
+ */
+export function toFileAttachment(attachment: ResolvedAttachment): Record<string, unknown> {
+  return {
+    '@odata.type': '#microsoft.graph.fileAttachment',
+    name: attachment.name,
+    contentType: attachment.contentType,
+    contentBytes: attachment.content.toString('base64'),
+  };
+}
+
+/**
+ * Add attachments to an existing item (draft message or event), e.g. /me/messages/{id}
+ * Small files are posted directly, large files go through an upload session.
+ * Returns the first failed response, or null when all attachments were added.
+ */
+export async function addAttachments(
+  itemPath: string,
+  attachments: ResolvedAttachment[]
+): Promise<GraphResponse<unknown> | null> {
+  for (const attachment of attachments) {
+    const response = attachment.content.length > LARGE_ATTACHMENT_THRESHOLD
+      ? await graphUploadSession(
+          `${itemPath}/attachments/createUploadSession`,
+          {
+            AttachmentItem: {
+              attachmentType: 'file',
+              name: attachment.name,
+              contentType: attachment.contentType,
+              size: attachment.content.length,
+            },
+          },
+          attachment.content
+        )
+      : await graphRequest(`${itemPath}/attachments`, {
+          method: 'POST',
+          body: toFileAttachment(attachment),
+        });
+    
+    if (!response.ok) {
+      logger.warn('Failed to add attachment', { name: attachment.name, size: attachment.content.length });
+      return response;
+    }
+  }
+  
+  return null;
+}
+
+/** File extensions whose content can be returned as plain text */
+const TEXT_ATTACHMENT_EXTENSIONS = ['txt', 'csv', 'tsv', 'md', 'log', 'json', 'xml', 'html', 'htm', 'ics', 'eml', 'vcf'];
+
+/** Content types (besides text/*) whose content can be returned as plain text */
+const TEXT_ATTACHMENT_CONTENT_TYPES = ['application/json', 'application/xml', 'application/csv', 'message/rfc822'];
+
+/**
+ * Check whether a file attachment holds text that can be safely extracted
+ */
+function isTextAttachment(name: string | undefined, contentType: string | undefined): boolean {
+  const type = (contentType || '').toLowerCase().split(';')[0].trim();
+  if (type.startsWith('text/') || TEXT_ATTACHMENT_CONTENT_TYPES.includes(type)) {
+    return true;
+  }
+  
+  const extension = (name || '').toLowerCase().split('.').pop() || '';
+  return TEXT_ATTACHMENT_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Cap extracted text at maxChars, reporting truncation
+ */
+function truncateText(text: string, maxChars: number): { text: string; truncated: boolean; totalChars: number } {
+  return {
+    text: text.length > maxChars ? text.slice(0, maxChars) : text,
+    truncated: text.length > maxChars,
+    totalChars: text.length,
+  };
+}
+
+/** Text attachments above this size (bytes) are not downloaded for extraction */
+const MAX_TEXT_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+interface AttachmentDetails {
+  '@odata.type'?: string;
+  id?: string;
+  name?: string;
+  contentType?: string;
+  size?: number;
+  isInline?: boolean;
+  contentBytes?: string;
+  item?: {
+    subject?: string;
+    from?: { emailAddress?: { name?: string; address?: string } };
+    sentDateTime?: string;
+    start?: unknown;
+    end?: unknown;
+    body?: { contentType?: string; content?: string };
+  };
+}
+
+/**
+ * Get a single attachment (attachmentPath e.g. /me/messages/{id}/attachments/{attachmentId})
+ * Text-like content is returned as plain text (capped at maxChars).
+ * Binary content is never returned - only metadata with a "not extractable" marker.
+ * Metadata is read first, so only text-like attachments below
+ * MAX_TEXT_ATTACHMENT_SIZE are ever downloaded.
+ */
+export async function getAttachmentContent(attachmentPath: string, maxChars: number): Promise<{
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}> {
+  const metadata = await graphRequest<AttachmentDetails>(`${attachmentPath}?$select=id,name,contentType,size,isInline`);
+  
+  if (!metadata.ok) {
+    return handleGraphResponse(metadata);
+  }
+  
+  let attachment = metadata.data;
+  const odataType = (attachment['@odata.type'] || '').toLowerCase();
+  const isFile = odataType.endsWith('fileattachment');
+  const isItem = odataType.endsWith('itemattachment');
+  const isExtractableFile = isFile
+    && isTextAttachment(attachment.name, attachment.contentType)
+    && (attachment.size ?? 0) <= MAX_TEXT_ATTACHMENT_SIZE;
+  
+  if (isItem || isExtractableFile) {
+    // Expand item attachments (attached emails/events) so their body is available
+    const url = isItem
+      ? `${attachmentPath}?$expand=${encodeURIComponent('microsoft.graph.itemattachment/item')}`
+      : attachmentPath;
+    const response = await graphRequest<AttachmentDetails>(url, {
+      headers: {
+        'Prefer': 'outlook.body-content-type="text"',
+      },
+    });
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    attachment = response.data;
+  }
+  
+  const result: Record<string, unknown> = {
+    id: attachment.id,
+    name: attachment.name,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    isInline: attachment.isInline,
+  };
+  
+  if (isItem) {
+    // Attached Outlook item (email, event) - return its body as plain text
+    const item = attachment.item || {};
+    const itemBody = item.body?.contentType?.toLowerCase() === 'html'
+      ? stripHtml(item.body.content || '')
+      : item.body?.content || '';
+    const { text, truncated, totalChars } = truncateText(itemBody, maxChars);
+    
+    result.extractable = true;
+    result.item = {
+      subject: item.subject,
+      from: item.from?.emailAddress,
+      sentDateTime: item.sentDateTime,
+      start: item.start,
+      end: item.end,
+    };
+    result.text = text;
+    if (truncated) {
+      result._truncated = { totalChars, returnedChars: maxChars };
+    }
+  } else if (isExtractableFile && attachment.contentBytes) {
+    let content = Buffer.from(attachment.contentBytes, 'base64').toString('utf-8');
+    
+    const isHtml = (attachment.contentType || '').toLowerCase().includes('html') ||
+                   /\.html?$/i.test(attachment.name || '');
+    if (isHtml) {
+      content = stripHtml(content);
+    }
+    
+    const { text, truncated, totalChars } = truncateText(content, maxChars);
+    result.extractable = true;
+    result.text = text;
+    if (truncated) {
+      result._truncated = { totalChars, returnedChars: maxChars };
+    }
+  } else {
+    // Binary files and reference (cloud) attachments - never return base64 content
+    result.extractable = false;
+    result._note = odataType.endsWith('referenceattachment')
+      ? 'Reference attachment (cloud file link) - content is not stored on the item.'
+      : isFile && isTextAttachment(attachment.name, attachment.contentType)
+        ? `Text attachment is larger than ${MAX_TEXT_ATTACHMENT_SIZE / (1024 * 1024)} MB - content is not extracted.`
+        : 'Binary attachment - content is not extractable as text.';
+  }
+  
+  return formatToolResponse(result);
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { decodeCursor, encodeCursor, graphBatchRequest } from './client.js';
+import { runWithContext, runWithMailbox } from '../utils/context.js';
+
+const GRAPH = 'https://graph.microsoft.com/v1.0';
+
+const inContext = <T>(fn: () => T) => runWithContext({ accessToken: 'token' }, fn) as T;
+const inMailbox = <T>(mailbox: string, fn: () => T) => inContext(() => runWithMailbox(mailbox, fn) as T);
+
+beforeAll(() => {
+  process.env.MS365_MCP_CLIENT_ID = 'test-client';
+  process.env.MS365_MCP_SHARED_MAILBOXES = 'support@contoso.com';
+});
+
+describe('decodeCursor', () => {
+  it('round-trips cursors of the own mailbox', () => {
+    const nextLink = `${GRAPH}/me/messages?$top=25&$skip=25`;
+    expect(inContext(() => decodeCursor(encodeCursor(nextLink)))).toBe(nextLink);
+  });
+  
+  it('rejects a forged cursor pointing at another mailbox', () => {
+    const forged = encodeCursor(`${GRAPH}/users/ceo@contoso.com/messages`);
+    expect(() => inContext(() => decodeCursor(forged))).toThrow(/another mailbox/);
+    expect(() => inMailbox('support@contoso.com', () => decodeCursor(forged))).toThrow(/another mailbox/);
+  });
+  
+  it('rejects cursors outside the Graph host or API version', () => {
+    expect(() => inContext(() => decodeCursor(encodeCursor('https://evil.example.com/v1.0/me/messages')))).toThrow(/non-Graph host/);
+    expect(() => inContext(() => decodeCursor(encodeCursor('https://graph.microsoft.com/beta/me/messages')))).toThrow(/Invalid pagination cursor/);
+    expect(() => inContext(() => decodeCursor('not-a-cursor'))).toThrow(/Invalid pagination cursor/);
+  });
+  
+  it('ties shared mailbox cursors to the mailbox of the current call', () => {
+    const nextLink = `${GRAPH}/users/support%40contoso.com/messages?$skip=25`;
+    expect(inMailbox('Support@contoso.com', () => decodeCursor(encodeCursor(nextLink)))).toBe(nextLink);
+    expect(inMailbox('support@contoso.com', () => decodeCursor(encodeCursor(`${GRAPH}/users('support%40contoso.com')/events`)))).toContain('/events');
+    
+    // Dropping the mailbox parameter must not keep reading the shared mailbox
+    expect(() => inContext(() => decodeCursor(encodeCursor(nextLink)))).toThrow(/another mailbox/);
+    // Nor may an own-mailbox cursor be replayed against a shared mailbox call
+    expect(() => inMailbox('support@contoso.com', () => decodeCursor(encodeCursor(`${GRAPH}/me/messages`)))).toThrow(/another mailbox/);
+  });
+  
+  it('checks the shared mailbox allowlist for the mailbox in the path', () => {
+    const cursor = encodeCursor(`${GRAPH}/users/ceo@contoso.com/messages`);
+    expect(() => inMailbox('ceo@contoso.com', () => decodeCursor(cursor))).toThrow(/not in the allowed shared mailboxes/);
+  });
+  
+  it('limits directory cursors to user listings', () => {
+    const reports = `${GRAPH}/users/someone%40contoso.com/directReports?$skiptoken=abc`;
+    expect(inContext(() => decodeCursor(encodeCursor(reports), 'directory'))).toBe(reports);
+    expect(() => inContext(() => decodeCursor(encodeCursor(`${GRAPH}/users/ceo@contoso.com/messages`), 'directory'))).toThrow(/Invalid pagination cursor/);
+  });
+});
+
+describe('graphBatchRequest', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('resends only throttled sub-requests', async () => {
+    const batchResponse = (responses: unknown[]) => new Response(JSON.stringify({ responses }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(batchResponse([
+        { id: 'b', status: 429, headers: { 'Retry-After': '0' }, body: { error: { message: 'Throttled' } } },
+        { id: 'a', status: 200, body: { value: 'a' } },
+      ]))
+      .mockResolvedValueOnce(batchResponse([{ id: 'b', status: 200, body: { value: 'b' } }]));
+    vi.stubGlobal('fetch', fetchMock);
+    
+    const results = await inContext(() => graphBatchRequest([
+      { id: 'a', method: 'GET', url: '/me/messages/a' },
+      { id: 'b', method: 'GET', url: '/me/messages/b' },
+    ]));
+    
+    expect(results).toEqual([
+      { id: 'a', status: 200, ok: true, data: { value: 'a' } },
+      { id: 'b', status: 200, ok: true, data: { value: 'b' } },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const retried = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(retried.requests.map((r: { id: string }) => r.id)).toEqual(['b']);
+  });
+});
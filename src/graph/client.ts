@@ -5,15 +5,21 @@
  * using the access token from the request context.
  */
 
-import { getContextToken } from '../utils/context.js';
+import { getContextToken, getContextMailbox } from '../utils/context.js';
 import logger from '../utils/logger.js';
 import { GRAPH_API_BASE } from '../config.js';
+import { assertSharedMailboxAllowed } from './shared-mailboxes.js';
 import { serializeResponse } from '../utils/tonl.js';
 
 export interface GraphRequestOptions {
   method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
   body?: unknown;
   headers?: Record<string, string>;
+  /**
+   * Whether the request is safe to repeat (default: true for everything except POST).
+   * Set to true for read-only POST actions such as findMeetingTimes.
+   */
+  idempotent?: boolean;
 }
 
 export interface GraphResponse<T = unknown> {
@@ -33,8 +39,220 @@ export interface GraphError {
   };
 }
 
+/**
+ * Ensure an absolute URL points at the configured Graph host
+ * Prevents the access token from being sent anywhere else (e.g. via a forged cursor).
+ */
+function assertGraphUrl(url: string): void {
+  const graphBase = new URL(GRAPH_API_BASE);
+  let parsed: URL;
+  
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid Graph API URL');
+  }
+  
+  if (parsed.protocol !== 'https:' || parsed.host !== graphBase.host) {
+    throw new Error(`Refusing to call non-Graph host: ${parsed.host}`);
+  }
+}
+
+/**
+ * Redirect a relative /me endpoint to the shared/delegated mailbox in context
+ * (/me/messages -> /users/{mailbox}/messages). Other endpoints pass through unchanged.
+ */
+function resolveMailboxEndpoint(endpoint: string): string {
+  const mailbox = getContextMailbox();
+  if (!mailbox) return endpoint;
+  
+  return endpoint.replace(/^\/?me(?=[/?]|$)/, `/users/${encodeURIComponent(mailbox)}`);
+}
+
+/**
+ * Wrap an @odata.nextLink in an opaque pagination cursor
+ */
+export function encodeCursor(nextLink: string): string {
+  return Buffer.from(nextLink, 'utf-8').toString('base64url');
+}
+
+/**
+ * What a pagination cursor may point at:
+ * - 'mailbox': the current mailbox (/me/... or /users/{context mailbox}/...)
+ * - 'directory': user listings (/users, /me/directReports, /users/{id}/directReports)
+ */
+export type CursorScope = 'mailbox' | 'directory';
+
+/** Directory paths (relative to the API version) a 'directory' cursor may page through */
+const DIRECTORY_CURSOR_PATH = /^\/(?:users(?:\/[^/]+\/directReports)?|me\/directReports)$/i;
+
+/**
+ * Extract the user segment of a /users/{id}/... path
+ * Graph writes it either as /users/{id} or as /users('{id}').
+ */
+function getPathUser(path: string): string | undefined {
+  const match = path.match(/^\/users(?:\/([^/(]+)|\('([^']+)'\))(?=\/|$)/i);
+  if (!match) return undefined;
+  
+  try {
+    return decodeURIComponent(match[1] ?? match[2]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode a pagination cursor back to its Graph URL
+ * 
+ * Cursors are fetched as-is, bypassing the /me rewrite and the shared mailbox
+ * allowlist, so mailbox cursors must point at the mailbox of the current call.
+ * Throws if the cursor is malformed, points outside the Graph host or at
+ * another resource than `scope` allows.
+ */
+export function decodeCursor(cursor: string, scope: CursorScope = 'mailbox'): string {
+  const url = Buffer.from(cursor, 'base64url').toString('utf-8');
+  
+  if (!/^https:\/\//i.test(url)) {
+    throw new Error('Invalid pagination cursor');
+  }
+  
+  assertGraphUrl(url);
+  
+  const versionPath = new URL(GRAPH_API_BASE).pathname;
+  const { pathname } = new URL(url);
+  if (!pathname.toLowerCase().startsWith(`${versionPath.toLowerCase()}/`)) {
+    throw new Error('Invalid pagination cursor');
+  }
+  const path = pathname.slice(versionPath.length);
+  
+  if (scope === 'directory') {
+    if (!DIRECTORY_CURSOR_PATH.test(path)) {
+      throw new Error('Invalid pagination cursor');
+    }
+    return url;
+  }
+  
+  const mailbox = getContextMailbox();
+  const isOwnMailbox = /^\/me(?=\/|$)/i.test(path);
+  
+  if (!mailbox) {
+    if (!isOwnMailbox) {
+      throw new Error('Pagination cursor belongs to another mailbox; pass the same mailbox as the original call');
+    }
+    return url;
+  }
+  
+  const pathUser = getPathUser(path);
+  if (!pathUser || pathUser.toLowerCase() !== mailbox.trim().toLowerCase()) {
+    throw new Error('Pagination cursor belongs to another mailbox; pass the same mailbox as the original call');
+  }
+  assertSharedMailboxAllowed(pathUser);
+  
+  return url;
+}
+
+/** Maximum number of retries after the initial attempt */
+const MAX_RETRIES = 3;
+
+/** Per-attempt timeout for Graph requests */
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** Base delay for exponential backoff (doubles each attempt) */
+const RETRY_BASE_DELAY_MS = 500;
+
+/** Never wait longer than this for a single retry (larger Retry-After values are surfaced to the caller) */
+const MAX_RETRY_WAIT_MS = 30000;
+
+/** Network error codes that guarantee the request never reached Graph */
+const NOT_SENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Error thrown when a Graph request exceeds REQUEST_TIMEOUT_MS
+ */
+class GraphTimeoutError extends Error {
+  constructor() {
+    super(`Graph API request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+    this.name = 'GraphTimeoutError';
+  }
+}
+
+/**
+ * Check whether a response status is worth retrying
+ * 429 means the request was throttled before being processed, so it is safe to retry
+ * even for non-idempotent requests. Server errors are only retried for idempotent requests.
+ */
+function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  if (status === 429) return true;
+  return idempotent && [500, 502, 503, 504].includes(status);
+}
+
+/**
+ * Check whether a fetch failure is worth retrying
+ * Non-idempotent requests are only retried when the connection was never established.
+ */
+function isRetryableNetworkError(error: unknown, idempotent: boolean): boolean {
+  if (idempotent) return true;
+  if (error instanceof GraphTimeoutError) return false;
+  
+  const code = (error as { cause?: { code?: string } })?.cause?.code;
+  return code !== undefined && NOT_SENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number): number {
+  const maxDelay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_WAIT_MS);
+  return Math.round(Math.random() * maxDelay);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Single fetch attempt with a timeout via AbortController
+ */
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new GraphTimeoutError();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 /**
  * Make a request to Microsoft Graph API
+ * 
+ * Throttled (429) and transient (5xx, network, timeout) failures are retried
+ * with Retry-After / exponential backoff. Non-idempotent requests (POST) are
+ * only retried when Graph provably did not process them.
+ * 
+ * Accepts relative endpoints (/me/messages) or absolute Graph URLs
+ * (e.g. @odata.nextLink values). Absolute URLs must use the Graph host.
  */
 export async function graphRequest<T = unknown>(
   endpoint: string,
@@ -46,9 +264,15 @@ export async function graphRequest<T = unknown>(
     throw new Error('No access token available in request context');
   }
   
-  const url = endpoint.startsWith('http') 
+  const isAbsolute = /^https?:\/\//i.test(endpoint);
+  if (isAbsolute) {
+    assertGraphUrl(endpoint);
+  }
+  
+  const path = isAbsolute ? '' : resolveMailboxEndpoint(endpoint);
+  const url = isAbsolute 
     ? endpoint 
-    : `${GRAPH_API_BASE}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+    : `${GRAPH_API_BASE}${path.startsWith('/') ? path : `/${path}`}`;
   
   const headers: Record<string, string> = {
     'Authorization': `Bearer ${accessToken}`,
@@ -70,7 +294,64 @@ export async function graphRequest<T = unknown>(
     url: url.replace(GRAPH_API_BASE, ''),
   });
   
-  const response = await fetch(url, requestOptions);
+  const idempotent = options.idempotent ?? requestOptions.method !== 'POST';
+  let attempt = 0;
+  let totalWaitMs = 0;
+  let response: Response;
+  
+  while (true) {
+    let waitMs: number;
+    
+    try {
+      response = await fetchWithTimeout(url, requestOptions);
+      
+      if (attempt >= MAX_RETRIES || !isRetryableStatus(response.status, idempotent)) {
+        break;
+      }
+      
+      waitMs = parseRetryAfter(response.headers.get('retry-after')) ?? getBackoffDelay(attempt);
+      if (waitMs > MAX_RETRY_WAIT_MS) {
+        // Graph asked us to back off longer than we're willing to block the tool call
+        break;
+      }
+      
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+      
+      logger.debug('Graph API retry', {
+        reason: `status ${response.status}`,
+        attempt: attempt + 1,
+        waitMs,
+        url: url.replace(GRAPH_API_BASE, ''),
+      });
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryableNetworkError(error, idempotent)) {
+        throw error;
+      }
+      
+      waitMs = getBackoffDelay(attempt);
+      
+      logger.debug('Graph API retry', {
+        reason: error instanceof Error ? error.message : String(error),
+        attempt: attempt + 1,
+        waitMs,
+        url: url.replace(GRAPH_API_BASE, ''),
+      });
+    }
+    
+    await sleep(waitMs);
+    totalWaitMs += waitMs;
+    attempt++;
+  }
+  
+  if (attempt > 0) {
+    logger.debug('Graph API request completed after retries', {
+      retries: attempt,
+      totalWaitMs,
+      status: response.status,
+      url: url.replace(GRAPH_API_BASE, ''),
+    });
+  }
   
   let data: T;
   const contentType = response.headers.get('content-type');
@@ -97,6 +378,281 @@ export async function graphRequest<T = unknown>(
   };
 }
 
+export interface GraphBatchRequestItem {
+  /** Caller-defined ID used to correlate responses (defaults to the array index) */
+  id?: string;
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  /** Relative Graph URL, e.g. /me/messages/{id} */
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface GraphBatchResponseItem<T = unknown> {
+  id: string;
+  status: number;
+  ok: boolean;
+  data: T;
+}
+
+/** Maximum number of requests Graph accepts in a single $batch call */
+const GRAPH_BATCH_LIMIT = 20;
+
+/** Sub-response statuses Graph uses to throttle individual batch requests */
+const BATCH_THROTTLED_STATUSES = [429, 503];
+
+interface BatchSubResponse<T> {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: T;
+}
+
+/**
+ * Read a sub-response header case-insensitively
+ */
+function getBatchHeader(item: BatchSubResponse<unknown> | undefined, name: string): string | null {
+  const entry = Object.entries(item?.headers ?? {}).find(([key]) => key.toLowerCase() === name);
+  return entry ? entry[1] : null;
+}
+
+/**
+ * Execute requests through Graph JSON batching ($batch)
+ * 
+ * Requests are sent in groups of 20 (the Graph limit). Results are returned
+ * in the same order as the input, one per request. A failed batch call marks
+ * every request of that group as failed rather than throwing.
+ * 
+ * Sub-requests throttled with 429/503 are resent on their own, after the
+ * longest Retry-After of the group, up to MAX_RETRIES times.
+ */
+export async function graphBatchRequest<T = unknown>(
+  requests: GraphBatchRequestItem[]
+): Promise<GraphBatchResponseItem<T>[]> {
+  const results: GraphBatchResponseItem<T>[] = [];
+  
+  for (let offset = 0; offset < requests.length; offset += GRAPH_BATCH_LIMIT) {
+    const group = requests.slice(offset, offset + GRAPH_BATCH_LIMIT).map((request, index) => ({
+      ...request,
+      id: request.id ?? String(offset + index),
+    }));
+    
+    const byId = new Map<string, GraphBatchResponseItem<T>>();
+    let pending = group;
+    let attempt = 0;
+    
+    while (pending.length > 0) {
+      const batchBody = {
+        requests: pending.map(request => {
+          const item: Record<string, unknown> = {
+            id: request.id,
+            method: request.method,
+            url: resolveMailboxEndpoint(request.url),
+          };
+          
+          // Batch items with a body must declare their Content-Type
+          if (request.body !== undefined) {
+            item.body = request.body;
+            item.headers = { 'Content-Type': 'application/json', ...request.headers };
+          } else if (request.headers) {
+            item.headers = request.headers;
+          }
+          
+          return item;
+        }),
+      };
+      
+      const response = await graphRequest<{
+        responses?: BatchSubResponse<T>[];
+        error?: { message?: string };
+      }>('/$batch', {
+        method: 'POST',
+        body: batchBody,
+      });
+      
+      if (!response.ok || !response.data?.responses) {
+        const message = response.data?.error?.message || `Graph batch error: ${response.status}`;
+        for (const request of pending) {
+          byId.set(request.id, {
+            id: request.id,
+            status: response.status,
+            ok: false,
+            data: { error: { message } } as T,
+          });
+        }
+        break;
+      }
+      
+      // Responses may arrive in any order - map them back by ID
+      const responses = new Map(response.data.responses.map(r => [r.id, r]));
+      for (const request of pending) {
+        const item = responses.get(request.id);
+        const status = item?.status ?? 500;
+        byId.set(request.id, {
+          id: request.id,
+          status,
+          ok: status >= 200 && status < 300,
+          data: (item?.body ?? { success: true }) as T,
+        });
+      }
+      
+      const throttled = pending.filter(r => BATCH_THROTTLED_STATUSES.includes(byId.get(r.id)!.status));
+      
+      logger.debug('Graph batch request', {
+        requests: pending.length,
+        failed: pending.filter(r => !byId.get(r.id)!.ok).length,
+        throttled: throttled.length,
+      });
+      
+      if (throttled.length === 0 || attempt >= MAX_RETRIES) {
+        break;
+      }
+      
+      // Wait for the longest Retry-After so every throttled request can go through
+      const waitMs = Math.max(
+        ...throttled.map(r => parseRetryAfter(getBatchHeader(responses.get(r.id), 'retry-after')) ?? getBackoffDelay(attempt))
+      );
+      if (waitMs > MAX_RETRY_WAIT_MS) {
+        break;
+      }
+      
+      logger.debug('Graph batch retry', {
+        requests: throttled.length,
+        attempt: attempt + 1,
+        waitMs,
+      });
+      
+      await sleep(waitMs);
+      pending = throttled;
+      attempt++;
+    }
+    
+    for (const request of group) {
+      results.push(byId.get(request.id)!);
+    }
+  }
+  
+  return results;
+}
+
+/**
+ * Upload chunk size for large file upload sessions.
+ * Graph requires chunks to be a multiple of 320 KiB and at most 4 MB.
+ */
+const UPLOAD_CHUNK_SIZE = 320 * 1024 * 12;
+
+/**
+ * PUT one chunk to an upload session URL
+ * Re-sending the same byte range is safe, so throttled, transient and network
+ * failures are retried like idempotent Graph requests.
+ */
+async function putUploadChunk(uploadUrl: string, init: RequestInit): Promise<Response> {
+  let attempt = 0;
+  
+  while (true) {
+    let waitMs: number;
+    
+    try {
+      const response = await fetchWithTimeout(uploadUrl, init);
+      
+      if (attempt >= MAX_RETRIES || !isRetryableStatus(response.status, true)) {
+        return response;
+      }
+      
+      waitMs = parseRetryAfter(response.headers.get('retry-after')) ?? getBackoffDelay(attempt);
+      if (waitMs > MAX_RETRY_WAIT_MS) {
+        return response;
+      }
+      
+      await response.text().catch(() => undefined);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) {
+        throw error;
+      }
+      
+      waitMs = getBackoffDelay(attempt);
+    }
+    
+    logger.debug('Graph upload chunk retry', { attempt: attempt + 1, waitMs });
+    
+    await sleep(waitMs);
+    attempt++;
+  }
+}
+
+/**
+ * Upload a large file through a Graph upload session
+ * 
+ * Creates the session via `createSessionEndpoint` (e.g. /me/messages/{id}/attachments/createUploadSession),
+ * then PUTs the content in chunks to the pre-authenticated upload URL.
+ * The upload URL must NOT receive the Authorization header.
+ */
+export async function graphUploadSession(
+  createSessionEndpoint: string,
+  sessionBody: unknown,
+  content: Buffer
+): Promise<GraphResponse<unknown>> {
+  const session = await graphRequest<{ uploadUrl?: string }>(createSessionEndpoint, {
+    method: 'POST',
+    body: sessionBody,
+  });
+  
+  if (!session.ok || !session.data?.uploadUrl) {
+    return session;
+  }
+  
+  const uploadUrl = session.data.uploadUrl;
+  const total = content.length;
+  let lastResponse: GraphResponse<unknown> = { data: { success: true }, status: 200, ok: true };
+  
+  for (let start = 0; start < total; start += UPLOAD_CHUNK_SIZE) {
+    const end = Math.min(start + UPLOAD_CHUNK_SIZE, total) - 1;
+    const chunk = content.subarray(start, end + 1);
+    
+    logger.debug('Graph upload chunk', { start, end, total });
+    
+    const response = await putUploadChunk(uploadUrl, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(chunk.length),
+        'Content-Range': `bytes ${start}-${end}/${total}`,
+      },
+      body: chunk,
+    });
+    
+    const contentType = response.headers.get('content-type');
+    const data = contentType?.includes('application/json')
+      ? await response.json()
+      : (await response.text()) || { success: true };
+    
+    lastResponse = { data, status: response.status, ok: response.ok };
+    
+    if (!response.ok) {
+      logger.warn('Graph upload session error', {
+        status: response.status,
+        statusText: response.statusText,
+        start,
+        total,
+      });
+      return lastResponse;
+    }
+  }
+  
+  return lastResponse;
+}
+
+/**
+ * Extract @odata.nextLink from a Graph collection response
+ */
+export function getNextLink(data: unknown): string | undefined {
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const nextLink = (data as Record<string, unknown>)['@odata.nextLink'];
+    return typeof nextLink === 'string' ? nextLink : undefined;
+  }
+  return undefined;
+}
+
 /**
  * Remove OData metadata fields to reduce token usage
  */
@@ -208,5 +764,12 @@ export function handleGraphResponse<T>(
   // Sanitize and truncate before serializing
   let processed = sanitizeGraphData(response.data);
   processed = truncateRecipientLists(processed);
+  
+  // Expose the next page as an opaque cursor (sanitizing strips @odata.nextLink)
+  const nextLink = getNextLink(response.data);
+  if (nextLink && processed && typeof processed === 'object') {
+    (processed as Record<string, unknown>).nextCursor = encodeCursor(nextLink);
+  }
+  
   return formatToolResponse(processed);
 }
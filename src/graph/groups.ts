@@ -0,0 +1,148 @@
+/**
+ * Group expansion
+ *
+ * Resolves Microsoft 365 groups, distribution lists and mail-enabled security
+ * groups to their members, so tools can work with the people behind an
+ * address like team-eng@company.com.
+ */
+
+import { graphRequest, type GraphResponse } from './client.js';
+import logger from '../utils/logger.js';
+
+export interface GroupInfo {
+  id: string;
+  displayName?: string;
+  mail?: string;
+  /** 'microsoft365' (Unified), 'distribution' or 'security' */
+  kind: 'microsoft365' | 'distribution' | 'security';
+}
+
+export interface GroupMember {
+  id?: string;
+  displayName?: string;
+  email?: string;
+  /** Directory object type: user, group, orgContact, device, ... */
+  type: string;
+}
+
+interface GraphGroup {
+  id: string;
+  displayName?: string;
+  mail?: string;
+  groupTypes?: string[];
+  securityEnabled?: boolean;
+}
+
+interface MemberListResponse {
+  value?: Array<{
+    '@odata.type'?: string;
+    id?: string;
+    displayName?: string;
+    mail?: string;
+    userPrincipalName?: string;
+  }>;
+  '@odata.nextLink'?: string;
+  error?: { message?: string };
+}
+
+/**
+ * Convert a Graph group to GroupInfo
+ */
+function toGroupInfo(group: GraphGroup): GroupInfo {
+  return {
+    id: group.id,
+    displayName: group.displayName,
+    mail: group.mail,
+    kind: group.groupTypes?.includes('Unified')
+      ? 'microsoft365'
+      : group.securityEnabled ? 'security' : 'distribution',
+  };
+}
+
+/**
+ * Look up a group by its email address
+ * Returns undefined when the address doesn't belong to a group.
+ */
+export async function findGroupByMail(address: string): Promise<GroupInfo | undefined> {
+  // OData string literals escape single quotes by doubling them
+  const filter = `mail eq '${address.trim().replace(/'/g, "''")}'`;
+  const response = await graphRequest<{ value?: GraphGroup[]; error?: { message?: string } }>(
+    `/groups?$filter=${encodeURIComponent(filter)}&$select=id,displayName,mail,groupTypes,securityEnabled`
+  );
+  
+  if (!response.ok) {
+    throw new Error(response.data?.error?.message || `Failed to look up group: ${response.status}`);
+  }
+  
+  const group = response.data?.value?.[0];
+  return group ? toGroupInfo(group) : undefined;
+}
+
+/**
+ * Resolve a group by email address or directory ID
+ * Throws when no group matches.
+ */
+export async function resolveGroup(reference: string): Promise<GroupInfo> {
+  if (reference.includes('@')) {
+    const group = await findGroupByMail(reference);
+    if (!group) {
+      throw new Error(`"${reference}" is not a group or distribution list address`);
+    }
+    return group;
+  }
+  
+  const response = await graphRequest<GraphGroup & { error?: { message?: string } }>(
+    `/groups/${encodeURIComponent(reference)}?$select=id,displayName,mail,groupTypes,securityEnabled`
+  );
+  
+  if (!response.ok) {
+    throw new Error(response.data?.error?.message || `Group "${reference}" not found: ${response.status}`);
+  }
+  
+  return toGroupInfo(response.data);
+}
+
+/**
+ * List a group's members, following pagination up to maxMembers
+ *
+ * With transitive, members of nested groups are included and the nested
+ * groups themselves are left out (they are containers, not people).
+ */
+export async function listGroupMembers(
+  groupId: string,
+  options: { transitive?: boolean; maxMembers?: number } = {}
+): Promise<{ members: GroupMember[]; truncated: boolean }> {
+  const { transitive = false, maxMembers = 100 } = options;
+  const relation = transitive ? 'transitiveMembers' : 'members';
+  
+  let url: string | undefined = `/groups/${groupId}/${relation}?$top=100&$select=id,displayName,mail,userPrincipalName`;
+  const members: GroupMember[] = [];
+  
+  while (url && members.length < maxMembers) {
+    const response: GraphResponse<MemberListResponse> = await graphRequest<MemberListResponse>(url);
+    
+    if (!response.ok) {
+      throw new Error(response.data?.error?.message || `Failed to list group members: ${response.status}`);
+    }
+    
+    for (const member of response.data.value || []) {
+      const type = (member['@odata.type'] || '#microsoft.graph.user').replace('#microsoft.graph.', '');
+      if (transitive && type === 'group') continue;
+      
+      members.push({
+        id: member.id,
+        displayName: member.displayName,
+        email: member.mail || member.userPrincipalName,
+        type,
+      });
+    }
+    
+    url = response.data['@odata.nextLink'];
+  }
+  
+  const truncated = members.length > maxMembers || url !== undefined;
+  
+  logger.debug('Listed group members', { transitive, count: members.length, truncated });
+  
+  return { members: members.slice(0, maxMembers), truncated };
+}
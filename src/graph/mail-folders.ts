@@ -0,0 +1,191 @@
+/**
+ * Mail folder resolver
+ *
+ * Lets tools accept folders by well-known name ("inbox"), display path
+ * ("Inbox/Clients/Acme") or raw folder ID. Folder listings are cached
+ * per user for a short TTL so repeated lookups don't re-walk the tree.
+ */
+
+import { graphRequest, type GraphResponse } from './client.js';
+import { getContextUserId, getContextMailbox } from '../utils/context.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Well-known folder names accepted by Graph in place of folder IDs
+ * Keys are normalized (lowercase, no spaces) so "Sent Items" matches too.
+ */
+const WELL_KNOWN_FOLDERS: Record<string, string> = {
+  inbox: 'inbox',
+  archive: 'archive',
+  sentitems: 'sentitems',
+  sent: 'sentitems',
+  deleteditems: 'deleteditems',
+  trash: 'deleteditems',
+  junkemail: 'junkemail',
+  junk: 'junkemail',
+  drafts: 'drafts',
+  outbox: 'outbox',
+};
+
+/** How long folder listings are cached (1 minute) */
+const FOLDER_CACHE_TTL_MS = 60 * 1000;
+
+interface FolderEntry {
+  id: string;
+  displayName: string;
+}
+
+interface FolderListResponse {
+  value?: FolderEntry[];
+  '@odata.nextLink'?: string;
+  error?: { message?: string };
+}
+
+interface FolderCacheEntry {
+  expiresAt: number;
+  /** Child folders keyed by parent ID ('' = top level) */
+  children: Map<string, FolderEntry[]>;
+}
+
+/**
+ * Per-user folder listing cache
+ * Key: user identifier from request context, plus the shared mailbox when one is in use
+ */
+const folderCache = new Map<string, FolderCacheEntry>();
+
+/**
+ * Cache key for the mailbox the current request works on
+ */
+function getCacheKey(): string | undefined {
+  const userId = getContextUserId();
+  if (!userId) return undefined;
+  
+  const mailbox = getContextMailbox();
+  return mailbox ? `${userId}|${mailbox.toLowerCase()}` : userId;
+}
+
+/**
+ * Get the cache entry for the current user (creates or refreshes expired entries)
+ */
+function getUserCache(): FolderCacheEntry | undefined {
+  const cacheKey = getCacheKey();
+  if (!cacheKey) return undefined;
+  
+  const now = Date.now();
+  let entry = folderCache.get(cacheKey);
+  
+  if (!entry || entry.expiresAt < now) {
+    entry = { expiresAt: now + FOLDER_CACHE_TTL_MS, children: new Map() };
+    folderCache.set(cacheKey, entry);
+  }
+  
+  // Drop other users' expired entries so the cache doesn't grow unbounded
+  for (const [key, value] of folderCache.entries()) {
+    if (value.expiresAt < now) {
+      folderCache.delete(key);
+    }
+  }
+  
+  return entry;
+}
+
+/**
+ * Clear the current user's folder cache (call after creating/renaming/moving/deleting folders)
+ */
+export function invalidateMailFolderCache(): void {
+  const cacheKey = getCacheKey();
+  if (cacheKey) {
+    folderCache.delete(cacheKey);
+  }
+}
+
+/**
+ * Normalize a folder name for well-known lookup
+ */
+function normalizeWellKnown(name: string): string | undefined {
+  return WELL_KNOWN_FOLDERS[name.toLowerCase().replace(/\s+/g, '')];
+}
+
+/**
+ * Heuristic: Graph folder IDs are long base64-like strings without spaces or slashes
+ */
+function looksLikeFolderId(value: string): boolean {
+  return value.length >= 40 && /^[A-Za-z0-9+=_-]+$/.test(value);
+}
+
+/**
+ * List child folders of a parent ('' = top level), following pagination
+ */
+async function listChildFolders(parentId: string): Promise<FolderEntry[]> {
+  const cache = getUserCache();
+  const cached = cache?.children.get(parentId);
+  if (cached) return cached;
+  
+  const base = parentId ? `/me/mailFolders/${parentId}/childFolders` : '/me/mailFolders';
+  let url: string | undefined = `${base}?$top=250&$select=id,displayName`;
+  const folders: FolderEntry[] = [];
+  
+  while (url) {
+    const response: GraphResponse<FolderListResponse> = await graphRequest<FolderListResponse>(url);
+    
+    if (!response.ok) {
+      throw new Error(response.data?.error?.message || `Failed to list mail folders: ${response.status}`);
+    }
+    
+    folders.push(...(response.data.value || []));
+    url = response.data['@odata.nextLink'];
+  }
+  
+  cache?.children.set(parentId, folders);
+  return folders;
+}
+
+/**
+ * Resolve a folder reference to a value usable in /me/mailFolders/{folder} paths
+ *
+ * Accepts:
+ * - Well-known names: inbox, archive, sentitems, deleteditems, junkemail, drafts, outbox
+ * - Display paths: "Project X", "Inbox/Clients/Acme" (case-insensitive, walks childFolders)
+ * - Raw folder IDs (returned unchanged)
+ */
+export async function resolveMailFolderId(folder: string): Promise<string> {
+  const trimmed = folder.trim();
+  
+  const wellKnown = normalizeWellKnown(trimmed);
+  if (wellKnown) return wellKnown;
+  
+  if (!trimmed.includes('/') && looksLikeFolderId(trimmed)) {
+    return trimmed;
+  }
+  
+  const segments = trimmed.split('/').map(s => s.trim()).filter(s => s.length > 0);
+  if (segments.length === 0) {
+    throw new Error(`Invalid mail folder: "${folder}"`);
+  }
+  
+  // First segment may be a well-known folder (e.g. "Inbox/Clients")
+  let currentId = '';
+  let startIndex = 0;
+  const firstWellKnown = normalizeWellKnown(segments[0]);
+  if (firstWellKnown) {
+    currentId = firstWellKnown;
+    startIndex = 1;
+  }
+  
+  for (let i = startIndex; i < segments.length; i++) {
+    const children = await listChildFolders(currentId);
+    const name = segments[i].toLowerCase();
+    const match = children.find(f => f.displayName?.toLowerCase() === name);
+    
+    if (!match) {
+      const parentPath = segments.slice(0, i).join('/') || 'top level';
+      throw new Error(`Mail folder "${segments[i]}" not found under ${parentPath}. Use list-mail-folders to see available folders.`);
+    }
+    
+    currentId = match.id;
+  }
+  
+  logger.debug('Resolved mail folder', { folder: trimmed, segments: segments.length });
+  
+  return currentId;
+}
@@ -0,0 +1,190 @@
+/**
+ * Mailbox settings (time zone, working hours, date format)
+ *
+ * Fetched once per user from /me/mailboxSettings and cached, so calendar
+ * tools can default to the user's own time zone instead of a hard-coded one.
+ */
+
+import { graphRequest } from './client.js';
+import { getContextUserId, runWithMailbox } from '../utils/context.js';
+import logger from '../utils/logger.js';
+
+/** Fallback when mailbox settings can't be read (e.g. missing MailboxSettings.Read consent) */
+const FALLBACK_TIME_ZONE = 'UTC';
+
+/** How long mailbox settings are cached (15 minutes) */
+const SETTINGS_CACHE_TTL_MS = 15 * 60 * 1000;
+
+export interface MailboxSettings {
+  /** IANA time zone (converted from Windows names where needed) */
+  timeZone: string;
+  /** Time zone as configured in Outlook (may be a Windows name) */
+  configuredTimeZone?: string;
+  workingHours?: {
+    daysOfWeek?: string[];
+    startTime?: string;
+    endTime?: string;
+    timeZone?: string;
+  };
+  dateFormat?: string;
+  timeFormat?: string;
+}
+
+/**
+ * Common Windows time zone names mapped to IANA
+ * Outlook stores Windows names by default; Graph accepts both, but IANA names are
+ * what agents (and most date libraries) understand.
+ */
+const WINDOWS_TO_IANA: Record<string, string> = {
+  'Dateline Standard Time': 'Etc/GMT+12',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Mountain Standard Time': 'America/Denver',
+  'Central America Standard Time': 'America/Guatemala',
+  'Central Standard Time': 'America/Chicago',
+  'Central Standard Time (Mexico)': 'America/Mexico_City',
+  'Canada Central Standard Time': 'America/Regina',
+  'SA Pacific Standard Time': 'America/Bogota',
+  'Eastern Standard Time': 'America/New_York',
+  'US Eastern Standard Time': 'America/Indiana/Indianapolis',
+  'Atlantic Standard Time': 'America/Halifax',
+  'Newfoundland Standard Time': 'America/St_Johns',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'Argentina Standard Time': 'America/Buenos_Aires',
+  'UTC': 'UTC',
+  'Coordinated Universal Time': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'W. Central Africa Standard Time': 'Africa/Lagos',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'South Africa Standard Time': 'Africa/Johannesburg',
+  'Egypt Standard Time': 'Africa/Cairo',
+  'Turkey Standard Time': 'Europe/Istanbul',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Arab Standard Time': 'Asia/Riyadh',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'Iran Standard Time': 'Asia/Tehran',
+  'Pakistan Standard Time': 'Asia/Karachi',
+  'India Standard Time': 'Asia/Kolkata',
+  'Nepal Standard Time': 'Asia/Kathmandu',
+  'Bangladesh Standard Time': 'Asia/Dhaka',
+  'SE Asia Standard Time': 'Asia/Bangkok',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Taipei Standard Time': 'Asia/Taipei',
+  'W. Australia Standard Time': 'Australia/Perth',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'Cen. Australia Standard Time': 'Australia/Adelaide',
+  'AUS Central Standard Time': 'Australia/Darwin',
+  'E. Australia Standard Time': 'Australia/Brisbane',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'Tasmania Standard Time': 'Australia/Hobart',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+};
+
+interface SettingsCacheEntry {
+  expiresAt: number;
+  settings: MailboxSettings;
+}
+
+/**
+ * Per-user mailbox settings cache
+ * Key: user identifier from request context
+ */
+const settingsCache = new Map<string, SettingsCacheEntry>();
+
+/**
+ * Convert a Windows time zone name to IANA (IANA names pass through unchanged)
+ */
+export function toIanaTimeZone(timeZone: string): string {
+  return WINDOWS_TO_IANA[timeZone] || timeZone;
+}
+
+/**
+ * Get the current user's mailbox settings (cached)
+ * Never throws - falls back to UTC when settings are unavailable.
+ */
+export async function getMailboxSettings(): Promise<MailboxSettings> {
+  const userId = getContextUserId();
+  const now = Date.now();
+  
+  const cached = userId ? settingsCache.get(userId) : undefined;
+  if (cached && cached.expiresAt > now) {
+    return cached.settings;
+  }
+  
+  let settings: MailboxSettings = { timeZone: FALLBACK_TIME_ZONE };
+  
+  try {
+    // Always the signed-in user's settings, even while a tool acts on a shared mailbox
+    const response = await runWithMailbox(undefined, () => graphRequest<{
+      timeZone?: string;
+      dateFormat?: string;
+      timeFormat?: string;
+      workingHours?: {
+        daysOfWeek?: string[];
+        startTime?: string;
+        endTime?: string;
+        timeZone?: { name?: string };
+      };
+    }>('/me/mailboxSettings?$select=timeZone,workingHours,dateFormat,timeFormat'));
+    
+    if (response.ok && response.data?.timeZone) {
+      settings = {
+        timeZone: toIanaTimeZone(response.data.timeZone),
+        configuredTimeZone: response.data.timeZone,
+        workingHours: response.data.workingHours ? {
+          daysOfWeek: response.data.workingHours.daysOfWeek,
+          startTime: response.data.workingHours.startTime,
+          endTime: response.data.workingHours.endTime,
+          timeZone: response.data.workingHours.timeZone?.name
+            ? toIanaTimeZone(response.data.workingHours.timeZone.name)
+            : undefined,
+        } : undefined,
+        dateFormat: response.data.dateFormat,
+        timeFormat: response.data.timeFormat,
+      };
+    } else {
+      logger.warn('Mailbox settings unavailable, using fallback time zone', {
+        status: response.status,
+        fallback: FALLBACK_TIME_ZONE,
+      });
+    }
+  } catch (error) {
+    logger.warn('Failed to load mailbox settings, using fallback time zone', {
+      error: error instanceof Error ? error.message : String(error),
+      fallback: FALLBACK_TIME_ZONE,
+    });
+  }
+  
+  // Only cache real settings so a transient failure doesn't pin the fallback
+  if (userId && settings.configuredTimeZone) {
+    settingsCache.set(userId, { expiresAt: now + SETTINGS_CACHE_TTL_MS, settings });
+    
+    // Drop expired entries so the cache doesn't grow unbounded
+    for (const [key, value] of settingsCache.entries()) {
+      if (value.expiresAt < now) {
+        settingsCache.delete(key);
+      }
+    }
+  }
+  
+  return settings;
+}
+
+/**
+ * Get the current user's default time zone (IANA)
+ */
+export async function getDefaultTimeZone(): Promise<string> {
+  return (await getMailboxSettings()).timeZone;
+}
@@ -0,0 +1,251 @@
+/**
+ * Meeting rooms and room lists
+ *
+ * Reads rooms from the Graph places API (following pagination) and filters
+ * them by capacity, location and equipment. Room data is the same for every
+ * user in a tenant and rarely changes, so listings are cached per tenant.
+ */
+
+import { graphRequest, type GraphResponse } from './client.js';
+import { getContextTenantId, getContextUserId } from '../utils/context.js';
+import logger from '../utils/logger.js';
+
+/** How long room and room list listings are cached (1 hour) */
+const ROOM_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Upper bound on rooms read per listing, so huge tenants can't stall a request */
+const MAX_ROOMS = 2000;
+
+export interface Room {
+  displayName: string;
+  emailAddress: string;
+  building?: string;
+  floorNumber?: number;
+  floorLabel?: string;
+  capacity?: number;
+  /** 'standard' rooms accept bookings; 'reserved' rooms are for specific people only */
+  bookingType?: string;
+  isWheelChairAccessible?: boolean;
+  displayDeviceName?: string;
+  audioDeviceName?: string;
+  videoDeviceName?: string;
+  city?: string;
+}
+
+export interface RoomList {
+  displayName: string;
+  emailAddress: string;
+  city?: string;
+}
+
+export interface RoomFilters {
+  /** Room list email address or display name */
+  roomList?: string;
+  building?: string;
+  city?: string;
+  floor?: string | number;
+  minCapacity?: number;
+  requireDisplay?: boolean;
+  requireAudio?: boolean;
+  requireVideo?: boolean;
+  wheelchairAccessible?: boolean;
+  bookingType?: 'standard' | 'reserved';
+  /** Matches part of the room name or email address */
+  query?: string;
+}
+
+interface GraphPlace {
+  displayName?: string;
+  emailAddress?: string;
+  building?: string;
+  floorNumber?: number;
+  floorLabel?: string;
+  capacity?: number;
+  bookingType?: string;
+  isWheelChairAccessible?: boolean;
+  displayDeviceName?: string;
+  audioDeviceName?: string;
+  videoDeviceName?: string;
+  address?: { city?: string };
+}
+
+interface PlaceListResponse {
+  value?: GraphPlace[];
+  '@odata.nextLink'?: string;
+  error?: { message?: string };
+}
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: T;
+}
+
+/**
+ * Per-tenant listing cache
+ * Key: tenant ID (user ID when the tenant is unknown) plus the listing
+ */
+const placeCache = new Map<string, CacheEntry<unknown>>();
+
+/**
+ * Run a listing through the cache of the current tenant
+ */
+async function cached<T>(listing: string, load: () => Promise<T>): Promise<T> {
+  const owner = getContextTenantId() || getContextUserId();
+  if (!owner) {
+    return load();
+  }
+  
+  const cacheKey = `${owner}|${listing}`;
+  const now = Date.now();
+  const entry = placeCache.get(cacheKey);
+  if (entry && entry.expiresAt > now) {
+    return entry.value as T;
+  }
+  
+  const value = await load();
+  placeCache.set(cacheKey, { expiresAt: now + ROOM_CACHE_TTL_MS, value });
+  
+  // Drop expired entries so the cache doesn't grow unbounded
+  for (const [key, cachedEntry] of placeCache.entries()) {
+    if (cachedEntry.expiresAt < now) {
+      placeCache.delete(key);
+    }
+  }
+  
+  return value;
+}
+
+/**
+ * Read every page of a places listing, up to MAX_ROOMS entries
+ */
+async function listPlaces(endpoint: string): Promise<GraphPlace[]> {
+  let url: string | undefined = `${endpoint}?$top=100`;
+  const places: GraphPlace[] = [];
+  
+  while (url && places.length < MAX_ROOMS) {
+    const response: GraphResponse<PlaceListResponse> = await graphRequest<PlaceListResponse>(url);
+    
+    if (!response.ok) {
+      throw new Error(response.data?.error?.message || `Failed to list rooms: ${response.status}`);
+    }
+    
+    places.push(...(response.data.value || []));
+    url = response.data['@odata.nextLink'];
+  }
+  
+  if (url) {
+    logger.warn('Room listing truncated', { endpoint, limit: MAX_ROOMS });
+  }
+  
+  return places.slice(0, MAX_ROOMS);
+}
+
+function toRoom(place: GraphPlace): Room {
+  return {
+    displayName: place.displayName || 'Unknown Room',
+    emailAddress: place.emailAddress || '',
+    building: place.building || undefined,
+    floorNumber: place.floorNumber ?? undefined,
+    floorLabel: place.floorLabel || undefined,
+    capacity: place.capacity ?? undefined,
+    bookingType: place.bookingType || undefined,
+    isWheelChairAccessible: place.isWheelChairAccessible ?? undefined,
+    displayDeviceName: place.displayDeviceName || undefined,
+    audioDeviceName: place.audioDeviceName || undefined,
+    videoDeviceName: place.videoDeviceName || undefined,
+    city: place.address?.city || undefined,
+  };
+}
+
+/**
+ * List the tenant's room lists (typically one per building or site)
+ */
+export async function listRoomLists(): Promise<RoomList[]> {
+  return cached('roomlists', async () => {
+    const places = await listPlaces('/places/microsoft.graph.roomlist');
+    return places
+      .filter(p => p.emailAddress)
+      .map(p => ({
+        displayName: p.displayName || p.emailAddress!,
+        emailAddress: p.emailAddress!,
+        city: p.address?.city || undefined,
+      }));
+  });
+}
+
+/**
+ * Resolve a room list by email address or display name
+ * Throws with the available lists when nothing matches.
+ */
+export async function resolveRoomList(reference: string): Promise<RoomList> {
+  const roomLists = await listRoomLists();
+  const normalized = reference.trim().toLowerCase();
+  
+  const match = roomLists.find(l => l.emailAddress.toLowerCase() === normalized)
+    || roomLists.find(l => l.displayName.toLowerCase() === normalized);
+  
+  if (!match) {
+    const available = roomLists.map(l => l.displayName).join(', ') || 'none';
+    throw new Error(`Room list "${reference}" not found. Available room lists: ${available}`);
+  }
+  
+  return match;
+}
+
+/**
+ * List rooms, either all rooms in the tenant or those of one room list
+ * Rooms without an email address can't be booked and are left out.
+ */
+export async function listRooms(roomList?: string): Promise<Room[]> {
+  const list = roomList ? await resolveRoomList(roomList) : undefined;
+  const endpoint = list
+    ? `/places/${encodeURIComponent(list.emailAddress)}/microsoft.graph.roomlist/rooms`
+    : '/places/microsoft.graph.room';
+  
+  return cached(list ? `rooms|${list.emailAddress.toLowerCase()}` : 'rooms', async () => {
+    const places = await listPlaces(endpoint);
+    const rooms = places.map(toRoom).filter(r => r.emailAddress);
+    
+    logger.debug('Listed rooms', { roomList: list?.emailAddress, count: rooms.length });
+    
+    return rooms;
+  });
+}
+
+/**
+ * Apply capacity, location and equipment filters
+ * Rooms with unknown capacity or floor don't match filters on them.
+ */
+export function filterRooms(rooms: Room[], filters: RoomFilters): Room[] {
+  const contains = (value: string | undefined, term: string) => !!value?.toLowerCase().includes(term.trim().toLowerCase());
+  
+  return rooms.filter(room => {
+    if (filters.building && !contains(room.building, filters.building)) return false;
+    if (filters.city && !contains(room.city, filters.city)) return false;
+    if (filters.query && !contains(room.displayName, filters.query) && !contains(room.emailAddress, filters.query)) return false;
+    if (filters.minCapacity !== undefined && (room.capacity ?? 0) < filters.minCapacity) return false;
+    if (filters.requireDisplay && !room.displayDeviceName) return false;
+    if (filters.requireAudio && !room.audioDeviceName) return false;
+    if (filters.requireVideo && !room.videoDeviceName) return false;
+    if (filters.wheelchairAccessible && room.isWheelChairAccessible !== true) return false;
+    if (filters.bookingType && room.bookingType !== filters.bookingType) return false;
+    
+    if (filters.floor !== undefined) {
+      const floor = String(filters.floor).trim().toLowerCase();
+      if (String(room.floorNumber ?? '') !== floor && room.floorLabel?.toLowerCase() !== floor) return false;
+    }
+    
+    return true;
+  });
+}
+
+/**
+ * Order rooms so the smallest room that fits comes first, then by name
+ * Keeps large rooms free for large meetings when a capacity is requested.
+ */
+export function sortRoomsByFit(rooms: Room[]): Room[] {
+  return [...rooms].sort((a, b) =>
+    (a.capacity ?? Number.MAX_SAFE_INTEGER) - (b.capacity ?? Number.MAX_SAFE_INTEGER)
+    || a.displayName.localeCompare(b.displayName)
+  );
+}
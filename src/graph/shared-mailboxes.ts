@@ -0,0 +1,31 @@
+/**
+ * Shared and delegated mailbox access
+ *
+ * Tools can act on another mailbox (a shared support@ mailbox, an executive's
+ * calendar) only when it is listed in MS365_MCP_SHARED_MAILBOXES. Graph still
+ * enforces the user's actual mailbox permissions on top of this allowlist.
+ */
+
+import { getConfig } from '../config.js';
+
+/**
+ * Whether shared mailbox access is configured at all
+ */
+export function isSharedMailboxAccessEnabled(): boolean {
+  return getConfig().sharedMailboxes.length > 0;
+}
+
+/**
+ * Throw unless the mailbox (UPN, email or user ID) is on the configured allowlist
+ */
+export function assertSharedMailboxAllowed(mailbox: string): void {
+  const allowed = getConfig().sharedMailboxes;
+  
+  if (allowed.length === 0) {
+    throw new Error('Shared mailbox access is not enabled on this server (MS365_MCP_SHARED_MAILBOXES is empty)');
+  }
+  
+  if (!allowed.includes(mailbox.trim().toLowerCase())) {
+    throw new Error(`Mailbox "${mailbox}" is not in the allowed shared mailboxes: ${allowed.join(', ')}`);
+  }
+}
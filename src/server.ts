@@ -30,7 +30,8 @@ export function createApp() {
   app.set('trust proxy', true);
   
   // Parse request bodies with size limits to prevent DoS
-  app.use(express.json({ limit: '1mb' }));
+  // JSON limit is configurable because send-mail/create-draft-mail carry base64 attachments
+  app.use(express.json({ limit: config.maxRequestBodySize }));
   app.use(express.urlencoded({ extended: true, limit: '1mb' }));
   
   // CORS configuration
@@ -113,6 +114,7 @@ export function createApp() {
     const context = {
       accessToken: req.auth.token,
       userId: req.auth.userId,
+      tenantId: req.auth.tenantId,
     };
     
     await runWithContext(context, async () => {
@@ -3,7 +3,23 @@
  */
 
 import { z } from 'zod';
-import { graphRequest, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { graphRequest, graphBatchRequest, handleGraphResponse, formatErrorResponse, decodeCursor, encodeCursor, getNextLink, type GraphResponse } from '../graph/client.js';
+import { getDefaultTimeZone } from '../graph/mailbox-settings.js';
+import { findGroupByMail, listGroupMembers, type GroupInfo, type GroupMember } from '../graph/groups.js';
+import { listRooms, listRoomLists, filterRooms, sortRoomsByFit, type Room, type RoomFilters } from '../graph/rooms.js';
+import { LARGE_ATTACHMENT_THRESHOLD, resolveAttachments, toFileAttachment, addAttachments, getAttachmentContent } from '../graph/attachments.js';
+import { stripHtml } from '../utils/html.js';
+import {
+  parseIcs,
+  serializeIcs,
+  toSimpleRecurrence,
+  fromGraphRecurrence,
+  isKnownTimeZone,
+  utcToZoned,
+  type IcsEvent,
+  type IcsDateTime,
+  type GraphRecurrence,
+} from '../utils/ics.js';
 import { serializeResponse } from '../utils/tonl.js';
 
 // ============================================================================
@@ -61,44 +77,38 @@ function enrichEventsWithDayInfo(events: unknown[]): unknown[] {
   return events.map(event => enrichEventWithDayInfo(event as Record<string, unknown>));
 }
 
+/**
+ * Request headers that make Graph return event times in the user's mailbox time zone
+ * (Graph returns UTC otherwise), plus any additional Prefer values
+ */
+async function getLocalTimeHeaders(...preferences: string[]): Promise<Record<string, string>> {
+  return { 'Prefer': [`outlook.timezone="${await getDefaultTimeZone()}"`, ...preferences].join(', ') };
+}
+
 // ============================================================================
 // Room Management
 // ============================================================================
 
+/** Maximum number of rooms checked as resource attendees in find-meeting-times */
+const MAX_ROOM_CANDIDATES = 20;
+
 /**
- * Fetch all rooms from Microsoft Graph API
- * Returns minimal room data to reduce token usage
+ * Pick the rooms find-meeting-times checks for availability
+ * With a capacity filter the smallest fitting rooms come first. Never throws:
+ * without room access the search continues without rooms and reports why.
  */
-async function fetchAllRooms(): Promise<Array<{
-  displayName: string;
-  emailAddress: string;
-  building?: string;
-  city?: string;
-}>> {
+async function selectCandidateRooms(filters: RoomFilters): Promise<{
+  rooms: Room[];
+  matchingRooms: number;
+  error?: string;
+}> {
   try {
-    // Fetch rooms using /places endpoint
-    const response = await graphRequest<{ value: unknown[] }>('/places/microsoft.graph.room');
-    const rooms = (response.data as { value: unknown[] })?.value || [];
-    
-    // Extract only essential fields
-    return rooms.map((room: unknown) => {
-      const r = room as {
-        displayName?: string;
-        emailAddress?: string;
-        building?: string;
-        address?: { city?: string };
-      };
-      
-      return {
-        displayName: r.displayName || 'Unknown Room',
-        emailAddress: r.emailAddress || '',
-        building: r.building,
-        city: r.address?.city,
-      };
-    }).filter(r => r.emailAddress); // Only include rooms with email
+    const matching = filterRooms(await listRooms(filters.roomList), filters);
+    const ordered = filters.minCapacity !== undefined ? sortRoomsByFit(matching) : matching;
+    
+    return { rooms: ordered.slice(0, MAX_ROOM_CANDIDATES), matchingRooms: ordered.length };
   } catch (error) {
-    // If room fetch fails, return empty array (graceful degradation)
-    return [];
+    return { rooms: [], matchingRooms: 0, error: error instanceof Error ? error.message : String(error) };
   }
 }
 
@@ -110,7 +120,7 @@ async function fetchAllRooms(): Promise<Array<{
  */
 function optimizeMeetingTimesResponse(
   suggestions: Array<Record<string, unknown>>,
-  roomMetadata: Array<{ emailAddress: string; displayName: string; building?: string; city?: string }>
+  roomMetadata: Room[]
 ): Array<Record<string, unknown>> {
   // Create room lookup map
   const roomMap = new Map(
@@ -129,7 +139,7 @@ function optimizeMeetingTimesResponse(
     });
     
     // Group free rooms by location with email addresses
-    const roomsByLocation: Record<string, Array<{ name: string; email: string }>> = {};
+    const roomsByLocation: Record<string, Array<{ name: string; email: string; capacity?: number }>> = {};
     const nonRoomAttendees: Array<Record<string, unknown>> = [];
     
     for (const attendee of availableAttendees) {
@@ -146,6 +156,7 @@ function optimizeMeetingTimesResponse(
         roomsByLocation[location].push({
           name: room.displayName || email,
           email: room.emailAddress,
+          capacity: room.capacity,
         });
       } else {
         // This is a person - keep as-is
@@ -154,7 +165,7 @@ function optimizeMeetingTimesResponse(
     }
     
     // Build final room structure with counts and limited examples
-    const freeRoomsByLocation: Record<string, { count: number; rooms: Array<{ name: string; email: string }> }> = {};
+    const freeRoomsByLocation: Record<string, { count: number; rooms: Array<{ name: string; email: string; capacity?: number }> }> = {};
     for (const [location, rooms] of Object.entries(roomsByLocation)) {
       freeRoomsByLocation[location] = {
         count: rooms.length,
@@ -184,6 +195,7 @@ const listCalendarEventsSchema = z.object({
   top: z.number().min(1).max(50).optional().default(10),
   skip: z.number().min(0).optional(),
   orderBy: z.string().optional().default('start/dateTime'),
+  cursor: z.string().optional(),
 });
 
 const searchCalendarEventsSchema = z.object({
@@ -196,8 +208,23 @@ const searchCalendarEventsSchema = z.object({
   startAfter: z.string().optional(),
   startBefore: z.string().optional(),
   top: z.number().min(1).max(50).optional().default(25),
+  cursor: z.string().optional(),
 });
 
+/** Room filters shared by find-rooms and find-meeting-times */
+const roomFilterFields = {
+  roomList: z.string().optional(),
+  building: z.string().optional(),
+  city: z.string().optional(),
+  floor: z.union([z.number(), z.string()]).optional(),
+  minCapacity: z.number().min(1).optional(),
+  requireDisplay: z.boolean().optional(),
+  requireAudio: z.boolean().optional(),
+  requireVideo: z.boolean().optional(),
+  wheelchairAccessible: z.boolean().optional(),
+  bookingType: z.enum(['standard', 'reserved']).optional(),
+};
+
 const findMeetingTimesSchema = z.object({
   attendees: z.array(z.object({
     email: z.string(),
@@ -209,27 +236,87 @@ const findMeetingTimesSchema = z.object({
   meetingHoursStart: z.string().optional(),
   meetingHoursEnd: z.string().optional(),
   isOnlineMeeting: z.boolean().optional().default(false),
+  expandGroups: z.boolean().optional().default(false),
   isOrganizerOptional: z.boolean().optional().default(false),
   maxSuggestions: z.number().min(1).max(10).optional().default(5),
   timeZone: z.string().optional(),
+  ...roomFilterFields,
+});
+
+const findRoomsSchema = z.object({
+  ...roomFilterFields,
+  query: z.string().optional(),
+  showRoomLists: z.boolean().optional().default(false),
+  top: z.number().min(1).max(100).optional().default(25),
+  skip: z.number().min(0).optional().default(0),
+});
+
+const getAvailabilitySchema = z.object({
+  emails: z.array(z.string()).min(1).max(20),
+  startDateTime: z.string(),
+  endDateTime: z.string(),
+  timeZone: z.string().optional(),
+  intervalMinutes: z.number().min(5).max(1440).optional().default(30),
 });
 
 const getCalendarEventSchema = z.object({
   eventId: z.string(),
 });
 
+const listEventAttachmentsSchema = z.object({
+  eventId: z.string(),
+  attachmentId: z.string().optional(),
+  maxChars: z.number().min(100).max(100000).optional().default(20000),
+});
+
+const eventAttachmentSchema = z.object({
+  name: z.string().optional(),
+  contentType: z.string().optional(),
+  contentBytes: z.string().optional(),
+  messageId: z.string().optional(),
+  attachmentId: z.string().optional(),
+}).refine(
+  a => (a.contentBytes !== undefined && a.name !== undefined) || (a.messageId !== undefined && a.attachmentId !== undefined),
+  { message: 'Each attachment needs either name + contentBytes, or messageId + attachmentId of an existing mail attachment' }
+);
+
+const addEventAttachmentSchema = z.object({
+  eventId: z.string(),
+  attachments: z.array(eventAttachmentSchema).min(1),
+});
+
 const getCalendarViewSchema = z.object({
   startDateTime: z.string(),
   endDateTime: z.string(),
   calendarId: z.string().optional(),
   top: z.number().min(1).max(50).optional().default(10),
+  cursor: z.string().optional(),
 });
 
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const recurrenceSchema = z.object({
+  pattern: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().min(1).max(99).optional().default(1),
+  daysOfWeek: z.array(z.enum(WEEKDAYS)).optional(),
+  dayOfMonth: z.number().min(1).max(31).optional(),
+  weekIndex: z.enum(['first', 'second', 'third', 'fourth', 'last']).optional(),
+  month: z.number().min(1).max(12).optional(),
+  endDate: z.string().optional(),
+  numberOfOccurrences: z.number().min(1).max(999).optional(),
+}).refine(
+  r => r.endDate === undefined || r.numberOfOccurrences === undefined,
+  { message: 'Use either endDate or numberOfOccurrences, not both' }
+).refine(
+  r => r.weekIndex === undefined || (r.daysOfWeek?.length ?? 0) > 0,
+  { message: 'weekIndex needs daysOfWeek (e.g. {"weekIndex": "second", "daysOfWeek": ["tuesday"]})' }
+);
+
 const createCalendarEventSchema = z.object({
   subject: z.string(),
   start: z.string(),
   end: z.string(),
-  timeZone: z.string().optional().default('Europe/Berlin'),
+  timeZone: z.string().optional(),
   body: z.string().optional(),
   bodyType: z.enum(['html', 'text']).optional().default('text'),
   location: z.string().optional(),
@@ -241,13 +328,14 @@ const createCalendarEventSchema = z.object({
   isOnlineMeeting: z.boolean().optional().default(true),
   reminderMinutesBeforeStart: z.number().optional(),
   calendarId: z.string().optional(),
+  recurrence: recurrenceSchema.optional(),
 });
 
 const createDraftCalendarEventSchema = z.object({
   subject: z.string(),
   start: z.string(),
   end: z.string(),
-  timeZone: z.string().optional().default('Europe/Berlin'),
+  timeZone: z.string().optional(),
   body: z.string().optional(),
   bodyType: z.enum(['html', 'text']).optional().default('text'),
   location: z.string().optional(),
@@ -259,6 +347,7 @@ const createDraftCalendarEventSchema = z.object({
   isOnlineMeeting: z.boolean().optional().default(true),
   reminderMinutesBeforeStart: z.number().optional(),
   calendarId: z.string().optional(),
+  recurrence: recurrenceSchema.optional(),
 });
 
 const updateCalendarEventSchema = z.object({
@@ -273,16 +362,203 @@ const updateCalendarEventSchema = z.object({
     email: z.string(),
     type: z.enum(['required', 'optional']).optional(),
   })).optional(),
+  recurrence: recurrenceSchema.optional(),
+  applyTo: z.enum(['occurrence', 'series']).optional().default('occurrence'),
 });
 
 const deleteCalendarEventSchema = z.object({
   eventId: z.string(),
+  applyTo: z.enum(['occurrence', 'series']).optional().default('occurrence'),
+  force: z.boolean().optional().default(false),
+});
+
+const cancelCalendarEventSchema = z.object({
+  eventId: z.string(),
+  comment: z.string().optional(),
+  applyTo: z.enum(['occurrence', 'series']).optional().default('occurrence'),
+});
+
+const listEventInstancesSchema = z.object({
+  eventId: z.string(),
+  startDateTime: z.string(),
+  endDateTime: z.string(),
+  top: z.number().min(1).max(50).optional().default(25),
+  cursor: z.string().optional(),
+});
+
+const respondToEventSchema = z.object({
+  eventId: z.string().optional(),
+  messageId: z.string().optional(),
+  response: z.enum(['accept', 'tentativelyAccept', 'decline']),
+  comment: z.string().optional(),
+  sendResponse: z.boolean().optional().default(true),
+  proposedNewTime: z.object({
+    start: z.string(),
+    end: z.string(),
+    timeZone: z.string().optional(),
+  }).optional(),
+}).refine(
+  p => p.eventId !== undefined || p.messageId !== undefined,
+  { message: 'Either eventId or messageId is required' }
+).refine(
+  p => p.proposedNewTime === undefined || p.response !== 'accept',
+  { message: 'proposedNewTime can only be used with decline or tentativelyAccept' }
+).refine(
+  p => p.proposedNewTime === undefined || p.sendResponse,
+  { message: 'proposedNewTime is sent to the organizer, so it cannot be used with sendResponse: false' }
+);
+
+const exportCalendarEventsIcsSchema = z.object({
+  startDateTime: z.string(),
+  endDateTime: z.string(),
+  calendarId: z.string().optional(),
+  expandRecurrences: z.boolean().optional().default(false),
+  maxEvents: z.number().min(1).max(1000).optional().default(250),
+});
+
+const importIcsEventSchema = z.object({
+  ics: z.string().optional(),
+  messageId: z.string().optional(),
+  attachmentId: z.string().optional(),
+  uid: z.string().optional(),
+  includeAttendees: z.boolean().optional().default(false),
+  calendarId: z.string().optional(),
+}).refine(
+  p => p.ics !== undefined || (p.messageId !== undefined && p.attachmentId !== undefined),
+  { message: 'Either ics or messageId and attachmentId is required' }
+);
+
+const CALENDAR_COLORS = [
+  'auto', 'lightBlue', 'lightGreen', 'lightOrange', 'lightGray',
+  'lightYellow', 'lightTeal', 'lightPink', 'lightBrown', 'lightRed',
+] as const;
+
+const CALENDAR_ROLES = [
+  'none', 'freeBusyRead', 'limitedRead', 'read', 'write',
+  'delegateWithoutPrivateEventAccess', 'delegateWithPrivateEventAccess',
+] as const;
+
+const createCalendarSchema = z.object({
+  name: z.string().min(1),
+  color: z.enum(CALENDAR_COLORS).optional(),
+  calendarGroupId: z.string().optional(),
+});
+
+const updateCalendarSchema = z.object({
+  calendarId: z.string(),
+  name: z.string().min(1).optional(),
+  color: z.enum(CALENDAR_COLORS).optional(),
+}).refine(
+  p => p.name !== undefined || p.color !== undefined,
+  { message: 'Provide name and/or color to update' }
+);
+
+const deleteCalendarSchema = z.object({
+  calendarId: z.string(),
+});
+
+const listCalendarGroupsSchema = z.object({
+  includeCalendars: z.boolean().optional().default(false),
+});
+
+const shareCalendarSchema = z.object({
+  calendarId: z.string(),
+  recipients: z.array(z.object({
+    email: z.string(),
+    role: z.enum(CALENDAR_ROLES).optional().default('read'),
+  })).max(20).optional(),
 });
 
 // ============================================================================
 // Tool Implementations
 // ============================================================================
 
+/**
+ * Map the simplified recurrence input to Graph's patternedRecurrence
+ * Missing pattern details are derived from the event start (e.g. weekly on the start's weekday).
+ */
+function buildPatternedRecurrence(
+  recurrence: z.infer<typeof recurrenceSchema>,
+  start: string,
+  timeZone: string
+): Record<string, unknown> {
+  const startDate = start.substring(0, 10);
+  const startDay = new Date(startDate + 'T12:00:00Z');
+  const startWeekday = WEEKDAYS[startDay.getUTCDay()];
+  const startDayOfMonth = startDay.getUTCDate();
+  const startMonth = startDay.getUTCMonth() + 1;
+  
+  const pattern: Record<string, unknown> = {
+    interval: recurrence.interval,
+  };
+  
+  switch (recurrence.pattern) {
+    case 'daily':
+      pattern.type = 'daily';
+      break;
+    case 'weekly':
+      pattern.type = 'weekly';
+      pattern.daysOfWeek = recurrence.daysOfWeek?.length ? recurrence.daysOfWeek : [startWeekday];
+      pattern.firstDayOfWeek = 'monday';
+      break;
+    case 'monthly':
+      // "Second Tuesday" style needs daysOfWeek (+ weekIndex); otherwise same day number each month
+      if (recurrence.daysOfWeek?.length) {
+        pattern.type = 'relativeMonthly';
+        pattern.daysOfWeek = recurrence.daysOfWeek;
+        pattern.index = recurrence.weekIndex || 'first';
+      } else {
+        pattern.type = 'absoluteMonthly';
+        pattern.dayOfMonth = recurrence.dayOfMonth || startDayOfMonth;
+      }
+      break;
+    case 'yearly':
+      pattern.month = recurrence.month || startMonth;
+      if (recurrence.daysOfWeek?.length) {
+        pattern.type = 'relativeYearly';
+        pattern.daysOfWeek = recurrence.daysOfWeek;
+        pattern.index = recurrence.weekIndex || 'first';
+      } else {
+        pattern.type = 'absoluteYearly';
+        pattern.dayOfMonth = recurrence.dayOfMonth || startDayOfMonth;
+      }
+      break;
+  }
+  
+  const range: Record<string, unknown> = {
+    startDate,
+    recurrenceTimeZone: timeZone,
+  };
+  
+  if (recurrence.endDate) {
+    range.type = 'endDate';
+    range.endDate = recurrence.endDate.substring(0, 10);
+  } else if (recurrence.numberOfOccurrences) {
+    range.type = 'numbered';
+    range.numberOfOccurrences = recurrence.numberOfOccurrences;
+  } else {
+    range.type = 'noEnd';
+  }
+  
+  return { pattern, range };
+}
+
+/**
+ * Resolve an event ID to its series master (for occurrences and exceptions)
+ * Returns the given ID unchanged for single events and series masters.
+ */
+async function resolveSeriesMasterId(eventId: string): Promise<string> {
+  const response = await graphRequest<{ type?: string; seriesMasterId?: string; error?: { message?: string } }>(
+    `/me/events/${eventId}?$select=type,seriesMasterId`
+  );
+  
+  if (!response.ok) {
+    throw new Error(response.data?.error?.message || `Could not load event: ${response.status}`);
+  }
+  
+  return response.data?.seriesMasterId || eventId;
+}
+
 /**
  * List all calendars
  */
@@ -295,14 +571,236 @@ async function listCalendars() {
   }
 }
 
+/**
+ * Create a secondary calendar, optionally inside a calendar group
+ */
+async function createCalendar(params: Record<string, unknown>) {
+  const { name, color, calendarGroupId } = createCalendarSchema.parse(params);
+  
+  try {
+    const endpoint = calendarGroupId
+      ? `/me/calendarGroups/${calendarGroupId}/calendars`
+      : '/me/calendars';
+    
+    const response = await graphRequest(endpoint, {
+      method: 'POST',
+      body: { name, ...(color && { color }) },
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Rename a calendar or change its color
+ */
+async function updateCalendar(params: Record<string, unknown>) {
+  const { calendarId, name, color } = updateCalendarSchema.parse(params);
+  
+  try {
+    const body: Record<string, unknown> = {};
+    if (name !== undefined) body.name = name;
+    if (color !== undefined) body.color = color;
+    
+    const response = await graphRequest(`/me/calendars/${calendarId}`, {
+      method: 'PATCH',
+      body,
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete a secondary calendar with all its events
+ */
+async function deleteCalendar(params: Record<string, unknown>) {
+  const { calendarId } = deleteCalendarSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/calendars/${calendarId}`, {
+      method: 'DELETE',
+    });
+    
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Calendar deleted' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * List calendar groups, optionally with the calendars in each
+ */
+async function listCalendarGroups(params: Record<string, unknown>) {
+  const { includeCalendars } = listCalendarGroupsSchema.parse(params);
+  
+  try {
+    const response = await graphRequest<{ value?: Array<{ id: string; name?: string }> }>(
+      '/me/calendarGroups?$select=id,name'
+    );
+    
+    if (!response.ok || !includeCalendars) {
+      return handleGraphResponse(response);
+    }
+    
+    const groups = response.data.value || [];
+    const calendars = await graphBatchRequest<{ value?: unknown[]; error?: { message?: string } }>(groups.map(group => ({
+      method: 'GET' as const,
+      url: `/me/calendarGroups/${group.id}/calendars?$select=id,name,color,isDefaultCalendar,canEdit,canShare`,
+    })));
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(groups.map((group, index) => ({
+          id: group.id,
+          name: group.name,
+          ...(calendars[index].ok
+            ? { calendars: calendars[index].data.value || [] }
+            : { error: calendars[index].data?.error?.message || `Graph API error: ${calendars[index].status}` }),
+        }))),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+interface CalendarPermission {
+  id: string;
+  emailAddress?: { name?: string; address?: string };
+  role?: string;
+  allowedRoles?: string[];
+  isInsideOrganization?: boolean;
+  isRemovable?: boolean;
+}
+
+/**
+ * Compact a calendar permission for tool output
+ */
+function toFriendlyPermission(permission: CalendarPermission): Record<string, unknown> {
+  return {
+    id: permission.id,
+    // The organization-wide default permission has no address
+    email: permission.emailAddress?.address || undefined,
+    name: permission.emailAddress?.name,
+    role: permission.role,
+    allowedRoles: permission.allowedRoles,
+    isInsideOrganization: permission.isInsideOrganization,
+    isRemovable: permission.isRemovable,
+  };
+}
+
+/**
+ * Share a calendar: grant, change or revoke each recipient's role
+ * Without recipients, lists the current permissions.
+ */
+async function shareCalendar(params: Record<string, unknown>) {
+  const { calendarId, recipients } = shareCalendarSchema.parse(params);
+  
+  try {
+    const permissionsPath = `/me/calendars/${calendarId}/calendarPermissions`;
+    const existingResponse = await graphRequest<{ value?: CalendarPermission[] }>(permissionsPath);
+    
+    if (!existingResponse.ok) {
+      return handleGraphResponse(existingResponse);
+    }
+    
+    const existing = existingResponse.data.value || [];
+    
+    if (!recipients?.length) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ permissions: existing.map(toFriendlyPermission) }),
+        }],
+      };
+    }
+    
+    const results: Array<Record<string, unknown>> = [];
+    
+    for (const { email, role } of recipients) {
+      const current = existing.find(p => p.emailAddress?.address?.toLowerCase() === email.trim().toLowerCase());
+      let response: GraphResponse<unknown>;
+      let action: string;
+      
+      // Granting a permission is a POST; an existing recipient's role is changed in place
+      if (!current) {
+        if (role === 'none') {
+          results.push({ email, success: true, action: 'unchanged', message: 'Calendar is not shared with this recipient' });
+          continue;
+        }
+        response = await graphRequest(permissionsPath, {
+          method: 'POST',
+          body: { emailAddress: { address: email.trim() }, role },
+        });
+        action = 'added';
+      } else if (role === 'none' && current.isRemovable !== false) {
+        response = await graphRequest(`${permissionsPath}/${current.id}`, { method: 'DELETE' });
+        action = 'removed';
+      } else {
+        response = await graphRequest(`${permissionsPath}/${current.id}`, {
+          method: 'PATCH',
+          body: { role },
+        });
+        action = 'updated';
+      }
+      
+      if (response.ok || response.status === 204) {
+        results.push({ email, success: true, action, role });
+      } else {
+        const graphError = response.data as { error?: { message?: string } } | undefined;
+        results.push({ email, success: false, error: graphError?.error?.message || `Graph API error: ${response.status}` });
+      }
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({ calendarId, results }),
+      }],
+      ...(results.every(r => !r.success) && { isError: true }),
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 /**
  * List calendar events with date range filtering
  * Uses calendarView for proper recurring event expansion
  */
 async function listCalendarEvents(params: Record<string, unknown>) {
-  const { calendarId, startAfter, startBefore, top, skip, orderBy } = listCalendarEventsSchema.parse(params);
+  const { calendarId, startAfter, startBefore, top, skip, orderBy, cursor } = listCalendarEventsSchema.parse(params);
   
   try {
+    // Cursor already encodes the original query (date range, sort, selection)
+    if (cursor) {
+      const response = await graphRequest<{ value: unknown[] }>(decodeCursor(cursor), {
+        headers: await getLocalTimeHeaders(),
+      });
+      
+      const data = response.data as { value?: unknown[] } | undefined;
+      if (data?.value) {
+        data.value = enrichEventsWithDayInfo(data.value);
+      }
+      
+      return handleGraphResponse(response);
+    }
+    
     const queryParams = new URLSearchParams();
     
     if (top) queryParams.set('$top', String(top));
@@ -321,7 +819,9 @@ async function listCalendarEvents(params: Record<string, unknown>) {
         : '/me/calendarView';
       
       const url = `${endpoint}?${queryParams.toString()}`;
-      const response = await graphRequest<{ value: unknown[] }>(url);
+      const response = await graphRequest<{ value: unknown[] }>(url, {
+        headers: await getLocalTimeHeaders(),
+      });
       
       // Enrich events with day of week info
       const data = response.data as { value?: unknown[] } | undefined;
@@ -346,7 +846,9 @@ async function listCalendarEvents(params: Record<string, unknown>) {
     
     const url = `${endpoint}?${queryParams.toString()}`;
     
-    const response = await graphRequest<{ value: unknown[] }>(url);
+    const response = await graphRequest<{ value: unknown[] }>(url, {
+      headers: await getLocalTimeHeaders(),
+    });
     
     // Enrich events with day of week info
     const data = response.data as { value?: unknown[] } | undefined;
@@ -437,7 +939,7 @@ function buildCalendarFilter(params: {
  */
 async function searchCalendarEvents(params: Record<string, unknown>) {
   const parsed = searchCalendarEventsSchema.parse(params);
-  const { subject, organizerEmail, organizerName, attendees, isOnlineMeeting, isAllDay, startAfter, startBefore, top } = parsed;
+  const { subject, organizerEmail, organizerName, attendees, isOnlineMeeting, isAllDay, startAfter, startBefore, top, cursor } = parsed;
   
   try {
     const queryParams = new URLSearchParams();
@@ -457,8 +959,10 @@ async function searchCalendarEvents(params: Record<string, unknown>) {
       const nonDateFilter = buildCalendarFilter({ subject, organizerEmail, organizerName, isAllDay });
       if (nonDateFilter) queryParams.set('$filter', nonDateFilter);
       
-      const url = `/me/calendarView?${queryParams.toString()}`;
-      const response = await graphRequest<{ value: unknown[] }>(url);
+      const url = cursor ? decodeCursor(cursor) : `/me/calendarView?${queryParams.toString()}`;
+      const response = await graphRequest<{ value: unknown[] }>(url, {
+        headers: await getLocalTimeHeaders(),
+      });
       
       // Post-filter for properties not supported in $filter
       let events = (response.data as { value: unknown[] })?.value || [];
@@ -494,10 +998,12 @@ async function searchCalendarEvents(params: Record<string, unknown>) {
       // Enrich events with day of week info
       events = enrichEventsWithDayInfo(events);
       
+      const nextLink = getNextLink(response.data);
+      
       return {
         content: [{
           type: 'text' as const,
-          text: serializeResponse({ value: events }),
+          text: serializeResponse({ value: events, ...(nextLink && { nextCursor: encodeCursor(nextLink) }) }),
         }],
       };
     }
@@ -505,8 +1011,10 @@ async function searchCalendarEvents(params: Record<string, unknown>) {
     // Without date range, use events endpoint
     if (filter) queryParams.set('$filter', filter);
     
-    const url = `/me/events?${queryParams.toString()}`;
-    const response = await graphRequest<{ value: unknown[] }>(url);
+    const url = cursor ? decodeCursor(cursor) : `/me/events?${queryParams.toString()}`;
+    const response = await graphRequest<{ value: unknown[] }>(url, {
+      headers: await getLocalTimeHeaders(),
+    });
     
     // Post-filter for properties not supported in $filter
     let events = (response.data as { value: unknown[] })?.value || [];
@@ -542,10 +1050,12 @@ async function searchCalendarEvents(params: Record<string, unknown>) {
     // Enrich events with day of week info
     events = enrichEventsWithDayInfo(events);
     
+    const nextLink = getNextLink(response.data);
+    
     return {
       content: [{
         type: 'text' as const,
-        text: serializeResponse({ value: events }),
+        text: serializeResponse({ value: events, ...(nextLink && { nextCursor: encodeCursor(nextLink) }) }),
       }],
     };
   } catch (error) {
@@ -574,17 +1084,102 @@ function isWithinMeetingHours(
   return time >= startTime && time < endTime;
 }
 
+/** Upper bound on members added per expanded group attendee */
+const MAX_EXPANDED_GROUP_MEMBERS = 50;
+
+type MeetingAttendee = { email: string; type: 'required' | 'optional' | 'resource' };
+
+/**
+ * Replace group/distribution list attendees with their (transitive) members
+ * Addresses that aren't groups are kept as-is. Groups that can't be looked up
+ * (e.g. missing GroupMember.Read.All consent) are kept as-is too and reported
+ * with the error in expandedGroups.
+ */
+async function expandGroupAttendees(attendees: MeetingAttendee[]): Promise<{
+  attendees: MeetingAttendee[];
+  expandedGroups: Array<Record<string, unknown>>;
+}> {
+  const byEmail = new Map<string, MeetingAttendee>();
+  const expandedGroups: Array<Record<string, unknown>> = [];
+  
+  const add = (attendee: MeetingAttendee) => {
+    const key = attendee.email.toLowerCase();
+    const existing = byEmail.get(key);
+    // Someone listed both directly and via a group keeps the stronger attendance type
+    if (!existing || (existing.type === 'optional' && attendee.type === 'required')) {
+      byEmail.set(key, attendee);
+    }
+  };
+  
+  for (const attendee of attendees) {
+    if (attendee.type === 'resource') {
+      add(attendee);
+      continue;
+    }
+    
+    let group: GroupInfo | undefined;
+    let members: GroupMember[];
+    let truncated: boolean;
+    try {
+      group = await findGroupByMail(attendee.email);
+      if (!group) {
+        add(attendee);
+        continue;
+      }
+      
+      ({ members, truncated } = await listGroupMembers(group.id, {
+        transitive: true,
+        maxMembers: MAX_EXPANDED_GROUP_MEMBERS,
+      }));
+    } catch (error) {
+      add(attendee);
+      expandedGroups.push({
+        email: attendee.email,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    
+    const people = members.filter(m => m.type === 'user' && m.email);
+    people.forEach(m => add({ email: m.email as string, type: attendee.type }));
+    
+    expandedGroups.push({
+      email: attendee.email,
+      displayName: group.displayName,
+      memberCount: people.length,
+      truncated: truncated || undefined,
+    });
+  }
+  
+  return { attendees: Array.from(byEmail.values()), expandedGroups };
+}
+
 /**
  * Find available meeting times when all attendees are free
  */
 async function findMeetingTimes(params: Record<string, unknown>) {
   const parsed = findMeetingTimesSchema.parse(params);
-  let { attendees, durationMinutes, searchWindowStart, searchWindowEnd, meetingHoursStart, meetingHoursEnd, isOnlineMeeting, isOrganizerOptional, maxSuggestions, timeZone } = parsed;
+  let { attendees, durationMinutes, searchWindowStart, searchWindowEnd, meetingHoursStart, meetingHoursEnd, isOnlineMeeting, expandGroups, isOrganizerOptional, maxSuggestions, timeZone } = parsed;
+  const { roomList, building, city, floor, minCapacity, requireDisplay, requireAudio, requireVideo, wheelchairAccessible, bookingType } = parsed;
+  
+  // Expand group attendees before rooms are added (rooms are never groups)
+  let expandedGroups: Array<Record<string, unknown>> = [];
+  if (expandGroups) {
+    try {
+      ({ attendees, expandedGroups } = await expandGroupAttendees(attendees));
+    } catch (error) {
+      return formatErrorResponse(error);
+    }
+  }
   
-  // Auto-fetch rooms for in-person meetings
-  let roomMetadata: Array<{ emailAddress: string; displayName: string; building?: string; city?: string }> = [];
+  // Look up matching rooms for in-person meetings
+  let roomMetadata: Room[] = [];
+  let roomSearch: Record<string, unknown> | undefined;
   if (isOnlineMeeting === false) {
-    const rooms = await fetchAllRooms();
+    const roomFilters: RoomFilters = {
+      roomList, building, city, floor, minCapacity, requireDisplay, requireAudio, requireVideo, wheelchairAccessible, bookingType,
+    };
+    const { rooms, matchingRooms, error } = await selectCandidateRooms(roomFilters);
     
     // Store room metadata for later response processing
     roomMetadata = rooms;
@@ -597,9 +1192,18 @@ async function findMeetingTimes(params: Record<string, unknown>) {
     
     // Merge with existing attendees
     attendees = [...attendees, ...roomAttendees];
+    
+    roomSearch = { matchingRooms, checkedRooms: rooms.length };
+    if (error) {
+      roomSearch.error = `Rooms could not be loaded: ${error}`;
+    } else if (matchingRooms > rooms.length) {
+      roomSearch.message = `Only ${rooms.length} of ${matchingRooms} matching rooms were checked. Narrow the search with roomList, building, floor, minCapacity or equipment filters (see find-rooms).`;
+    }
   }
   
   try {
+    const resolvedTimeZone = timeZone || await getDefaultTimeZone();
+    
     // Build the request body for findMeetingTimes
     const requestBody: Record<string, unknown> = {
       attendees: attendees.map(a => ({
@@ -618,11 +1222,11 @@ async function findMeetingTimes(params: Record<string, unknown>) {
       timeSlots: [{
         start: {
           dateTime: searchWindowStart,
-          timeZone: timeZone || 'Europe/Berlin',
+          timeZone: resolvedTimeZone,
         },
         end: {
           dateTime: searchWindowEnd,
-          timeZone: timeZone || 'Europe/Berlin',
+          timeZone: resolvedTimeZone,
         },
       }],
     };
@@ -644,9 +1248,18 @@ async function findMeetingTimes(params: Record<string, unknown>) {
     const response = await graphRequest('/me/findMeetingTimes', {
       method: 'POST',
       body: requestBody,
-      headers: timeZone ? { 'Prefer': `outlook.timezone="${timeZone}"` } : undefined,
+      idempotent: true, // Read-only action, safe to retry
+      headers: { 'Prefer': `outlook.timezone="${resolvedTimeZone}"` },
     });
     
+    if (expandedGroups.length > 0 && response.data && typeof response.data === 'object') {
+      (response.data as Record<string, unknown>)._expandedGroups = expandedGroups;
+    }
+    
+    if (roomSearch && response.ok && response.data && typeof response.data === 'object') {
+      (response.data as Record<string, unknown>)._roomSearch = roomSearch;
+    }
+    
     // Client-side filtering for meeting hours constraint
     // Graph API doesn't reliably enforce meetingHoursStart/End, so we filter here
     if (meetingHoursStart && meetingHoursEnd && response.data) {
@@ -757,18 +1370,164 @@ async function findMeetingTimes(params: Record<string, unknown>) {
 }
 
 /**
- * Get a single calendar event by ID
+ * Find meeting rooms by room list, location, capacity and equipment
  */
-async function getCalendarEvent(params: Record<string, unknown>) {
-  const { eventId } = getCalendarEventSchema.parse(params);
+async function findRooms(params: Record<string, unknown>) {
+  const { showRoomLists, query, top, skip, ...filters } = findRoomsSchema.parse(params);
   
   try {
-    const response = await graphRequest(`/me/events/${eventId}`);
-    
-    // Enrich event with day of week info
-    if (response.data) {
-      response.data = enrichEventWithDayInfo(response.data as Record<string, unknown>);
-    }
+    if (showRoomLists) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ roomLists: await listRoomLists() }),
+        }],
+      };
+    }
+    
+    const matching = filterRooms(await listRooms(filters.roomList), { ...filters, query });
+    const ordered = filters.minCapacity !== undefined ? sortRoomsByFit(matching) : matching;
+    
+    const result: Record<string, unknown> = {
+      total: ordered.length,
+      rooms: ordered.slice(skip, skip + top),
+    };
+    if (skip + top < ordered.length) {
+      result.nextSkip = skip + top;
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(result),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get free/busy information for people and rooms via getSchedule
+ * Returns only busy blocks (free time is implicit) plus working hours per person.
+ */
+async function getAvailability(params: Record<string, unknown>) {
+  const { emails, startDateTime, endDateTime, timeZone, intervalMinutes } = getAvailabilitySchema.parse(params);
+  
+  try {
+    const resolvedTimeZone = timeZone || await getDefaultTimeZone();
+    
+    const response = await graphRequest<{
+      value?: Array<{
+        scheduleId?: string;
+        availabilityView?: string;
+        error?: { message?: string; responseCode?: string };
+        scheduleItems?: Array<{
+          status?: string;
+          subject?: string;
+          location?: string;
+          isPrivate?: boolean;
+          start?: { dateTime?: string; timeZone?: string };
+          end?: { dateTime?: string; timeZone?: string };
+        }>;
+        workingHours?: {
+          daysOfWeek?: string[];
+          startTime?: string;
+          endTime?: string;
+          timeZone?: { name?: string };
+        };
+      }>;
+    }>('/me/calendar/getSchedule', {
+      method: 'POST',
+      body: {
+        schedules: emails,
+        startTime: { dateTime: startDateTime, timeZone: resolvedTimeZone },
+        endTime: { dateTime: endDateTime, timeZone: resolvedTimeZone },
+        availabilityViewInterval: intervalMinutes,
+      },
+      headers: { 'Prefer': `outlook.timezone="${resolvedTimeZone}"` },
+      idempotent: true, // Read-only action, safe to retry
+    });
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    const schedules = (response.data?.value || []).map(schedule => {
+      if (schedule.error) {
+        return {
+          email: schedule.scheduleId,
+          error: schedule.error.message || schedule.error.responseCode,
+        };
+      }
+      
+      const busy = (schedule.scheduleItems || [])
+        .filter(item => item.status !== 'free')
+        .map(item => {
+          const block: Record<string, unknown> = {
+            status: item.status,
+            start: { dateTime: item.start?.dateTime },
+            end: { dateTime: item.end?.dateTime },
+          };
+          // Subject/location are only visible when the calendar is shared with you
+          if (item.subject && !item.isPrivate) block.subject = item.subject;
+          if (item.location && !item.isPrivate) block.location = item.location;
+          return enrichEventWithDayInfo(block);
+        });
+      
+      return {
+        email: schedule.scheduleId,
+        busy,
+        workingHours: schedule.workingHours ? {
+          daysOfWeek: schedule.workingHours.daysOfWeek,
+          startTime: schedule.workingHours.startTime,
+          endTime: schedule.workingHours.endTime,
+          timeZone: schedule.workingHours.timeZone?.name,
+        } : undefined,
+        availabilityView: schedule.availabilityView,
+      };
+    });
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          timeZone: resolvedTimeZone,
+          intervalMinutes,
+          schedules,
+        }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a single calendar event by ID
+ */
+async function getCalendarEvent(params: Record<string, unknown>) {
+  const { eventId } = getCalendarEventSchema.parse(params);
+  
+  try {
+    // Request plain text body from Graph API
+    const response = await graphRequest(`/me/events/${eventId}`, {
+      headers: await getLocalTimeHeaders('outlook.body-content-type="text"'),
+    });
+    
+    if (response.ok && response.data) {
+      const event = response.data as { body?: { contentType?: string; content?: string } };
+      
+      // If API returned HTML anyway (can happen), strip HTML client-side
+      if (event.body?.contentType?.toLowerCase() === 'html' && event.body.content) {
+        event.body = { contentType: 'text', content: stripHtml(event.body.content) };
+      }
+    }
+    
+    // Enrich event with day of week info
+    if (response.data) {
+      response.data = enrichEventWithDayInfo(response.data as Record<string, unknown>);
+    }
     
     return handleGraphResponse(response);
   } catch (error) {
@@ -776,11 +1535,76 @@ async function getCalendarEvent(params: Record<string, unknown>) {
   }
 }
 
+/**
+ * List attachments of a calendar event (metadata only), or read one attachment as text
+ */
+async function listEventAttachments(params: Record<string, unknown>) {
+  const { eventId, attachmentId, maxChars } = listEventAttachmentsSchema.parse(params);
+  
+  try {
+    if (attachmentId) {
+      return await getAttachmentContent(`/me/events/${eventId}/attachments/${attachmentId}`, maxChars);
+    }
+    
+    // Selecting explicit fields keeps contentBytes out of the response
+    const url = `/me/events/${eventId}/attachments?$select=id,name,contentType,size,isInline,lastModifiedDateTime`;
+    const response = await graphRequest<{ value: unknown[] }>(url);
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Attach files to a calendar event
+ * Small files are posted directly, large files go through an upload session.
+ */
+async function addEventAttachment(params: Record<string, unknown>) {
+  const { eventId, attachments } = addEventAttachmentSchema.parse(params);
+  
+  try {
+    const resolvedAttachments = await resolveAttachments(attachments);
+    
+    // Single small file: post directly so the created attachment metadata is returned
+    if (resolvedAttachments.length === 1 && resolvedAttachments[0].content.length <= LARGE_ATTACHMENT_THRESHOLD) {
+      const response = await graphRequest(`/me/events/${eventId}/attachments`, {
+        method: 'POST',
+        body: toFileAttachment(resolvedAttachments[0]),
+      });
+      
+      if (response.ok && response.data) {
+        // Don't echo the base64 content back
+        delete (response.data as Record<string, unknown>).contentBytes;
+      }
+      
+      return handleGraphResponse(response);
+    }
+    
+    const failed = await addAttachments(`/me/events/${eventId}`, resolvedAttachments);
+    if (failed) {
+      return handleGraphResponse(failed);
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse({
+          success: true,
+          message: 'Attachments added to event',
+          attachments: resolvedAttachments.map(a => a.name),
+        }),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 /**
  * Get calendar view for a time range
  */
 async function getCalendarView(params: Record<string, unknown>) {
-  const { startDateTime, endDateTime, calendarId, top } = getCalendarViewSchema.parse(params);
+  const { startDateTime, endDateTime, calendarId, top, cursor } = getCalendarViewSchema.parse(params);
   
   try {
     const queryParams = new URLSearchParams();
@@ -793,9 +1617,11 @@ async function getCalendarView(params: Record<string, unknown>) {
       ? `/me/calendars/${calendarId}/calendarView`
       : '/me/calendarView';
     
-    const url = `${endpoint}?${queryParams.toString()}`;
+    const url = cursor ? decodeCursor(cursor) : `${endpoint}?${queryParams.toString()}`;
     
-    const response = await graphRequest<{ value: unknown[] }>(url);
+    const response = await graphRequest<{ value: unknown[] }>(url, {
+      headers: await getLocalTimeHeaders(),
+    });
     
     // Enrich events with day of week info
     const data = response.data as { value?: unknown[] } | undefined;
@@ -815,19 +1641,21 @@ async function getCalendarView(params: Record<string, unknown>) {
 async function createCalendarEvent(params: Record<string, unknown>) {
   const { 
     subject, start, end, timeZone, body, bodyType, 
-    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId 
+    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId, recurrence 
   } = createCalendarEventSchema.parse(params);
   
   try {
+    const resolvedTimeZone = timeZone || await getDefaultTimeZone();
+    
     const event: Record<string, unknown> = {
       subject,
       start: {
         dateTime: start,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: resolvedTimeZone,
       },
       end: {
         dateTime: end,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: resolvedTimeZone,
       },
       isAllDay,
     };
@@ -859,6 +1687,10 @@ async function createCalendarEvent(params: Record<string, unknown>) {
       event.isReminderOn = true;
     }
     
+    if (recurrence) {
+      event.recurrence = buildPatternedRecurrence(recurrence, start, resolvedTimeZone);
+    }
+    
     const endpoint = calendarId 
       ? `/me/calendars/${calendarId}/events`
       : '/me/events';
@@ -880,19 +1712,21 @@ async function createCalendarEvent(params: Record<string, unknown>) {
 async function createDraftCalendarEvent(params: Record<string, unknown>) {
   const { 
     subject, start, end, timeZone, body, bodyType, 
-    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId 
+    location, attendees, isAllDay, isOnlineMeeting, reminderMinutesBeforeStart, calendarId, recurrence 
   } = createDraftCalendarEventSchema.parse(params);
   
   try {
+    const resolvedTimeZone = timeZone || await getDefaultTimeZone();
+    
     const event: Record<string, unknown> = {
       subject,
       start: {
         dateTime: start,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: resolvedTimeZone,
       },
       end: {
         dateTime: end,
-        timeZone: timeZone || 'Europe/Berlin',
+        timeZone: resolvedTimeZone,
       },
       isAllDay,
       isDraft: true,
@@ -925,6 +1759,10 @@ async function createDraftCalendarEvent(params: Record<string, unknown>) {
       event.isReminderOn = true;
     }
     
+    if (recurrence) {
+      event.recurrence = buildPatternedRecurrence(recurrence, start, resolvedTimeZone);
+    }
+    
     const endpoint = calendarId 
       ? `/me/calendars/${calendarId}/events`
       : '/me/events';
@@ -944,17 +1782,18 @@ async function createDraftCalendarEvent(params: Record<string, unknown>) {
  * Update a calendar event
  */
 async function updateCalendarEvent(params: Record<string, unknown>) {
-  const { eventId, subject, start, end, timeZone, body, location, attendees } = updateCalendarEventSchema.parse(params);
+  const { eventId, subject, start, end, timeZone, body, location, attendees, recurrence, applyTo } = updateCalendarEventSchema.parse(params);
   
   try {
     const updates: Record<string, unknown> = {};
+    const resolvedTimeZone = timeZone || await getDefaultTimeZone();
     
     if (subject !== undefined) updates.subject = subject;
     if (start !== undefined) {
-      updates.start = { dateTime: start, timeZone: timeZone || 'Europe/Berlin' };
+      updates.start = { dateTime: start, timeZone: resolvedTimeZone };
     }
     if (end !== undefined) {
-      updates.end = { dateTime: end, timeZone: timeZone || 'Europe/Berlin' };
+      updates.end = { dateTime: end, timeZone: resolvedTimeZone };
     }
     if (body !== undefined) {
       updates.body = { contentType: 'Text', content: body };
@@ -969,7 +1808,31 @@ async function updateCalendarEvent(params: Record<string, unknown>) {
       }));
     }
     
-    const response = await graphRequest(`/me/events/${eventId}`, {
+    // Recurrence can only be set on the series master
+    const targetEventId = applyTo === 'series' || recurrence
+      ? await resolveSeriesMasterId(eventId)
+      : eventId;
+    
+    if (recurrence) {
+      let recurrenceStart = start;
+      if (!recurrenceStart) {
+        const master = await graphRequest<{ start?: { dateTime?: string } }>(`/me/events/${targetEventId}?$select=start`, {
+          headers: { 'Prefer': `outlook.timezone="${resolvedTimeZone}"` },
+        });
+        
+        // Falling back to today would silently move the start of the series
+        if (!master.ok) {
+          return handleGraphResponse(master);
+        }
+        if (!master.data?.start?.dateTime) {
+          throw new Error('Could not read the start of the series; pass start together with recurrence');
+        }
+        recurrenceStart = master.data.start.dateTime;
+      }
+      updates.recurrence = buildPatternedRecurrence(recurrence, recurrenceStart, resolvedTimeZone);
+    }
+    
+    const response = await graphRequest(`/me/events/${targetEventId}`, {
       method: 'PATCH',
       body: updates,
     });
@@ -984,10 +1847,40 @@ async function updateCalendarEvent(params: Record<string, unknown>) {
  * Delete a calendar event
  */
 async function deleteCalendarEvent(params: Record<string, unknown>) {
-  const { eventId } = deleteCalendarEventSchema.parse(params);
+  const { eventId, applyTo, force } = deleteCalendarEventSchema.parse(params);
   
   try {
-    const response = await graphRequest(`/me/events/${eventId}`, {
+    const targetEventId = applyTo === 'series' ? await resolveSeriesMasterId(eventId) : eventId;
+    
+    // Deleting a meeting you organize removes it without telling attendees why
+    if (!force) {
+      const event = await graphRequest<{
+        isOrganizer?: boolean;
+        attendees?: Array<{ type?: string }>;
+      }>(`/me/events/${targetEventId}?$select=isOrganizer,attendees`);
+      
+      // Without the organizer check the delete can't be allowed through
+      if (!event.ok) {
+        return handleGraphResponse(event);
+      }
+      
+      const attendeeCount = (event.data?.attendees || []).filter(a => a.type !== 'resource').length;
+      
+      if (event.data?.isOrganizer && attendeeCount > 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: serializeResponse({
+              success: false,
+              deleted: false,
+              _warning: `You are the organizer of this meeting with ${attendeeCount} attendee(s). Deleting it would remove it without a personal cancellation message. Use cancel-calendar-event with a comment to tell attendees why, or call delete-calendar-event again with force=true to delete anyway.`,
+            }),
+          }],
+        };
+      }
+    }
+    
+    const response = await graphRequest(`/me/events/${targetEventId}`, {
       method: 'DELETE',
     });
     
@@ -995,7 +1888,138 @@ async function deleteCalendarEvent(params: Record<string, unknown>) {
       return {
         content: [{
           type: 'text' as const,
-          text: serializeResponse({ success: true, message: 'Event deleted' }),
+          text: serializeResponse({ success: true, message: applyTo === 'series' ? 'Event series deleted' : 'Event deleted' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Cancel a meeting as organizer, sending a cancellation message to attendees
+ */
+async function cancelCalendarEvent(params: Record<string, unknown>) {
+  const { eventId, comment, applyTo } = cancelCalendarEventSchema.parse(params);
+  
+  try {
+    const targetEventId = applyTo === 'series' ? await resolveSeriesMasterId(eventId) : eventId;
+    
+    const body: Record<string, unknown> = {};
+    if (comment) {
+      body.comment = comment;
+    }
+    
+    const response = await graphRequest(`/me/events/${targetEventId}/cancel`, {
+      method: 'POST',
+      body,
+    });
+    
+    if (response.status === 202 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: applyTo === 'series' ? 'Meeting series cancelled and attendees notified' : 'Meeting cancelled and attendees notified' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * List occurrences of a recurring event within a time range
+ */
+async function listEventInstances(params: Record<string, unknown>) {
+  const { eventId, startDateTime, endDateTime, top, cursor } = listEventInstancesSchema.parse(params);
+  
+  try {
+    let url: string;
+    if (cursor) {
+      url = decodeCursor(cursor);
+    } else {
+      const seriesMasterId = await resolveSeriesMasterId(eventId);
+      const queryParams = new URLSearchParams();
+      queryParams.set('startDateTime', startDateTime);
+      queryParams.set('endDateTime', endDateTime);
+      queryParams.set('$top', String(top));
+      queryParams.set('$select', 'id,subject,start,end,location,isCancelled,type,seriesMasterId');
+      url = `/me/events/${seriesMasterId}/instances?${queryParams.toString()}`;
+    }
+    
+    const response = await graphRequest<{ value: unknown[] }>(url, {
+      headers: await getLocalTimeHeaders(),
+    });
+    
+    // Enrich events with day of week info
+    const data = response.data as { value?: unknown[] } | undefined;
+    if (data?.value) {
+      data.value = enrichEventsWithDayInfo(data.value);
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Resolve the calendar event linked to a meeting request message in the mailbox
+ */
+async function resolveEventIdFromMessage(messageId: string): Promise<string> {
+  const response = await graphRequest<{ event?: { id?: string }; error?: { message?: string } }>(
+    `/me/messages/${messageId}?$expand=${encodeURIComponent('microsoft.graph.eventMessage/event($select=id)')}`
+  );
+  
+  if (!response.ok) {
+    throw new Error(response.data?.error?.message || `Could not load message: ${response.status}`);
+  }
+  
+  const eventId = response.data?.event?.id;
+  if (!eventId) {
+    throw new Error('Message is not a meeting request or its event could not be found');
+  }
+  
+  return eventId;
+}
+
+/**
+ * Respond to a meeting invitation (accept, tentatively accept, decline)
+ */
+async function respondToEvent(params: Record<string, unknown>) {
+  const { eventId, messageId, response: responseType, comment, sendResponse, proposedNewTime } = respondToEventSchema.parse(params);
+  
+  try {
+    const targetEventId = eventId || await resolveEventIdFromMessage(messageId as string);
+    
+    const body: Record<string, unknown> = { sendResponse };
+    if (comment) {
+      body.comment = comment;
+    }
+    if (proposedNewTime) {
+      const proposedTimeZone = proposedNewTime.timeZone || await getDefaultTimeZone();
+      body.proposedNewTime = {
+        start: { dateTime: proposedNewTime.start, timeZone: proposedTimeZone },
+        end: { dateTime: proposedNewTime.end, timeZone: proposedTimeZone },
+      };
+    }
+    
+    const response = await graphRequest(`/me/events/${targetEventId}/${responseType}`, {
+      method: 'POST',
+      body,
+    });
+    
+    if (response.status === 202 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, eventId: targetEventId, response: responseType, responseSent: sendResponse }),
         }],
       };
     }
@@ -1006,21 +2030,519 @@ async function deleteCalendarEvent(params: Record<string, unknown>) {
   }
 }
 
+/** Event fields needed to render iCalendar */
+const ICS_EVENT_SELECT = 'id,iCalUId,subject,body,start,end,location,organizer,attendees,isAllDay,isCancelled,showAs,type,seriesMasterId,originalStart,recurrence,onlineMeeting';
+
+/** Series masters also list their cancelled occurrences, exported as EXDATE */
+const ICS_MASTER_SELECT = `${ICS_EVENT_SELECT},cancelledOccurrences`;
+
+interface IcsSourceEvent {
+  id: string;
+  iCalUId?: string;
+  subject?: string;
+  body?: { contentType?: string; content?: string };
+  start?: { dateTime: string };
+  end?: { dateTime: string };
+  location?: { displayName?: string };
+  organizer?: { emailAddress?: { name?: string; address?: string } };
+  attendees?: Array<{
+    type?: string;
+    emailAddress?: { name?: string; address?: string };
+    status?: { response?: string };
+  }>;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  showAs?: string;
+  type?: string;
+  seriesMasterId?: string;
+  originalStart?: string;
+  recurrence?: GraphRecurrence | null;
+  onlineMeeting?: { joinUrl?: string } | null;
+  /** Series masters only: IDs of deleted occurrences, ending in their date (OID.{id}.2026-01-20) */
+  cancelledOccurrences?: string[];
+}
+
+/**
+ * EXDATEs of a series master, one per cancelled occurrence at the series' start time
+ * Returns undefined when Graph didn't report the cancelled occurrences.
+ */
+function toIcsExdates(master: IcsSourceEvent, timeZone: string): IcsDateTime[] | undefined {
+  if (!master.cancelledOccurrences || !master.start) return undefined;
+  
+  const time = master.start.dateTime.substring(11, 19);
+  const exdates: IcsDateTime[] = [];
+  for (const occurrence of master.cancelledOccurrences) {
+    const date = occurrence.match(/(\d{4}-\d{2}-\d{2})$/)?.[1];
+    if (!date) return undefined;
+    exdates.push(master.isAllDay
+      ? { dateTime: `${date}T00:00:00`, isDate: true }
+      : { dateTime: `${date}T${time}`, timeZone });
+  }
+  
+  return exdates;
+}
+
+/** Graph attendee responses as iCalendar PARTSTAT values */
+const PARTICIPATION_STATUS: Record<string, string> = {
+  organizer: 'ACCEPTED',
+  accepted: 'ACCEPTED',
+  tentativelyAccepted: 'TENTATIVE',
+  declined: 'DECLINED',
+};
+
+/**
+ * Convert a Graph event (times already in timeZone) to an iCalendar event
+ */
+function toIcsEvent(event: IcsSourceEvent, timeZone: string): IcsEvent {
+  const toIcsDateTime = (value: { dateTime: string } | undefined): IcsDateTime | undefined => {
+    if (!value) return undefined;
+    return event.isAllDay
+      ? { dateTime: `${value.dateTime.substring(0, 10)}T00:00:00`, isDate: true }
+      : { dateTime: value.dateTime.substring(0, 19), timeZone };
+  };
+  
+  let description = event.body?.content;
+  if (description && event.body?.contentType?.toLowerCase() === 'html') {
+    description = stripHtml(description);
+  }
+  
+  return {
+    uid: event.iCalUId || event.id,
+    summary: event.subject || undefined,
+    description: description?.trim() || undefined,
+    location: event.location?.displayName || undefined,
+    start: toIcsDateTime(event.start) as IcsDateTime,
+    end: toIcsDateTime(event.end),
+    organizer: event.organizer?.emailAddress?.address
+      ? { email: event.organizer.emailAddress.address, name: event.organizer.emailAddress.name }
+      : undefined,
+    attendees: event.attendees
+      ?.filter(a => a.emailAddress?.address)
+      .map(a => ({
+        email: a.emailAddress!.address!,
+        name: a.emailAddress!.name,
+        role: a.type === 'optional' || a.type === 'resource' ? a.type : 'required',
+        status: PARTICIPATION_STATUS[a.status?.response || ''] || 'NEEDS-ACTION',
+      })),
+    status: event.isCancelled ? 'CANCELLED' : 'CONFIRMED',
+    transparent: event.showAs === 'free',
+    url: event.onlineMeeting?.joinUrl || undefined,
+  };
+}
+
+/**
+ * Export events in a time range as iCalendar (.ics) text
+ */
+async function exportCalendarEventsIcs(params: Record<string, unknown>) {
+  const { startDateTime, endDateTime, calendarId, expandRecurrences, maxEvents } = exportCalendarEventsIcsSchema.parse(params);
+  
+  try {
+    // VTIMEZONE rules come from IANA data; zones the runtime doesn't know are exported in UTC
+    const mailboxTimeZone = await getDefaultTimeZone();
+    const timeZone = isKnownTimeZone(mailboxTimeZone) ? mailboxTimeZone : 'UTC';
+    const headers = { 'Prefer': `outlook.timezone="${timeZone}", outlook.body-content-type="text"` };
+    
+    const queryParams = new URLSearchParams();
+    queryParams.set('startDateTime', startDateTime);
+    queryParams.set('endDateTime', endDateTime);
+    queryParams.set('$top', '100');
+    queryParams.set('$select', ICS_EVENT_SELECT);
+    
+    const endpoint = calendarId
+      ? `/me/calendars/${calendarId}/calendarView`
+      : '/me/calendarView';
+    
+    let url: string | undefined = `${endpoint}?${queryParams.toString()}`;
+    const events: IcsSourceEvent[] = [];
+    
+    while (url && events.length < maxEvents) {
+      const response: GraphResponse<{ value?: IcsSourceEvent[] }> = await graphRequest<{ value?: IcsSourceEvent[] }>(url, { headers });
+      
+      if (!response.ok) {
+        return handleGraphResponse(response);
+      }
+      
+      events.push(...(response.data.value || []));
+      url = getNextLink(response.data);
+    }
+    
+    const truncated = events.length > maxEvents || url !== undefined;
+    const inRange = events.slice(0, maxEvents);
+    const icsEvents: IcsEvent[] = [];
+    
+    if (expandRecurrences) {
+      icsEvents.push(...inRange.map(e => toIcsEvent(e, timeZone)));
+    } else {
+      // calendarView only returns occurrences; load their series masters for the RRULE
+      const masterIds = [...new Set(inRange.map(e => e.seriesMasterId).filter((id): id is string => !!id))];
+      const masterResponses = await graphBatchRequest<IcsSourceEvent>(masterIds.map(id => ({
+        method: 'GET' as const,
+        url: `/me/events/${id}?$select=${ICS_MASTER_SELECT}`,
+        headers,
+      })));
+      
+      const masters = new Map<string, IcsEvent>();
+      for (const response of masterResponses) {
+        if (!response.ok || !response.data.recurrence) continue;
+        
+        // Without the cancelled occurrences the RRULE would bring deleted ones back
+        const exdates = toIcsExdates(response.data, timeZone);
+        if (!exdates) continue;
+        
+        const master: IcsEvent = {
+          ...toIcsEvent(response.data, timeZone),
+          rrule: fromGraphRecurrence(response.data.recurrence, { timeZone, isAllDay: response.data.isAllDay }),
+          exdates,
+        };
+        masters.set(response.data.id, master);
+        icsEvents.push(master);
+      }
+      
+      for (const event of inRange) {
+        const master = event.seriesMasterId ? masters.get(event.seriesMasterId) : undefined;
+        
+        // Single events, and occurrences whose series couldn't be loaded, are exported as they are
+        if (!master) {
+          icsEvents.push(toIcsEvent(event, timeZone));
+          continue;
+        }
+        
+        // Occurrences cancelled by the organizer stay in an attendee's calendar until removed
+        if (event.isCancelled && event.type === 'occurrence' && event.start) {
+          const exdate = toIcsEvent(event, timeZone).start;
+          if (!master.exdates!.some(d => d.dateTime === exdate.dateTime)) {
+            master.exdates!.push(exdate);
+          }
+          continue;
+        }
+        
+        // Plain occurrences are covered by the master's RRULE; modified ones override it
+        if (event.type === 'exception' && event.originalStart) {
+          const originalStart = utcToZoned(Date.parse(event.originalStart), timeZone);
+          icsEvents.push({
+            ...toIcsEvent(event, timeZone),
+            uid: master.uid,
+            recurrenceId: event.isAllDay
+              ? { dateTime: `${originalStart.substring(0, 10)}T00:00:00`, isDate: true }
+              : { dateTime: originalStart, timeZone },
+          });
+        }
+      }
+    }
+    
+    const content = [{
+      type: 'text' as const,
+      text: serializeIcs(icsEvents),
+    }];
+    
+    if (truncated) {
+      content.push({
+        type: 'text' as const,
+        text: serializeResponse({
+          truncated: true,
+          message: `Only the first ${maxEvents} events in the range were exported. Increase maxEvents or narrow the range.`,
+        }),
+      });
+    }
+    
+    return { content };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Create a calendar event from iCalendar (VEVENT) content
+ */
+async function importIcsEvent(params: Record<string, unknown>) {
+  const { ics, messageId, attachmentId, uid, includeAttendees, calendarId } = importIcsEventSchema.parse(params);
+  
+  try {
+    let text = ics;
+    
+    if (text === undefined) {
+      const response = await graphRequest<{ contentBytes?: string; error?: { message?: string } }>(
+        `/me/messages/${messageId}/attachments/${attachmentId}`
+      );
+      
+      if (!response.ok) {
+        return handleGraphResponse(response);
+      }
+      
+      if (!response.data.contentBytes) {
+        throw new Error(`Attachment ${attachmentId} is not a file attachment`);
+      }
+      
+      text = Buffer.from(response.data.contentBytes, 'base64').toString('utf8');
+    }
+    
+    // Modified occurrences (RECURRENCE-ID) can't be created on their own; import the series
+    const candidates = parseIcs(text).filter(e => !e.recurrenceId && (!uid || e.uid === uid));
+    if (candidates.length === 0) {
+      throw new Error(uid ? `No VEVENT with UID "${uid}" found` : 'No VEVENT found in the iCalendar content');
+    }
+    
+    const [event] = candidates;
+    const notes: string[] = [];
+    
+    if (candidates.length > 1) {
+      notes.push(`${candidates.length - 1} more event(s) found; pass uid to import a specific one.`);
+    }
+    
+    // Floating times (no TZID) are taken as mailbox time by create-calendar-event
+    const timeZone = event.start.isDate ? undefined : event.start.timeZone;
+    
+    const createParams: Record<string, unknown> = {
+      subject: event.summary || '(No subject)',
+      start: event.start.dateTime,
+      end: event.end?.dateTime,
+      timeZone,
+      body: event.description,
+      location: event.location,
+      isAllDay: event.start.isDate === true,
+      isOnlineMeeting: false,
+      calendarId,
+    };
+    
+    if (event.rrule) {
+      createParams.recurrence = toSimpleRecurrence(event.rrule, timeZone);
+    }
+    
+    if (event.exdates?.length) {
+      notes.push(`${event.exdates.length} excluded occurrence(s) (EXDATE) were not removed; delete them with delete-calendar-event.`);
+    }
+    
+    const attendees = (event.attendees || []).filter(a => a.role !== 'resource');
+    if (includeAttendees && attendees.length) {
+      createParams.attendees = attendees.map(a => ({ email: a.email, type: a.role }));
+    } else if (attendees.length) {
+      notes.push(`${attendees.length} attendee(s) were not invited. Set includeAttendees: true to send them invitations.`);
+    }
+    
+    const result = await createCalendarEvent(createParams);
+    
+    if (notes.length && !result.isError) {
+      result.content.push({
+        type: 'text' as const,
+        text: serializeResponse({ importNotes: notes }),
+      });
+    }
+    
+    return result;
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 // ============================================================================
 // Tool Definitions for MCP
 // ============================================================================
 
+/** Input schema properties of the room filters shared by find-rooms and find-meeting-times */
+const ROOM_FILTER_PROPERTIES = {
+  roomList: {
+    type: 'string',
+    description: 'Only rooms in this room list (email address or name, usually a building or site). Use find-rooms with showRoomLists: true to see them.',
+  },
+  building: {
+    type: 'string',
+    description: 'Only rooms whose building contains this text, e.g. "Building B"',
+  },
+  city: {
+    type: 'string',
+    description: 'Only rooms in this city',
+  },
+  floor: {
+    type: ['number', 'string'],
+    description: 'Only rooms on this floor (floor number or label)',
+  },
+  minCapacity: {
+    type: 'number',
+    description: 'Minimum number of seats. Smallest fitting rooms are listed first.',
+  },
+  requireDisplay: {
+    type: 'boolean',
+    description: 'Only rooms with a display/screen',
+  },
+  requireAudio: {
+    type: 'boolean',
+    description: 'Only rooms with audio conferencing equipment',
+  },
+  requireVideo: {
+    type: 'boolean',
+    description: 'Only rooms with video conferencing equipment',
+  },
+  wheelchairAccessible: {
+    type: 'boolean',
+    description: 'Only wheelchair-accessible rooms',
+  },
+  bookingType: {
+    type: 'string',
+    enum: ['standard', 'reserved'],
+    description: 'standard = bookable by anyone, reserved = reserved for specific people',
+  },
+};
+
 export const calendarToolDefinitions = [
   {
     name: 'list-calendars',
-    description: 'List all calendars for the authenticated user. Returns calendar IDs that can be used with other calendar tools.',
+    description: 'List all calendars for the authenticated user. Returns calendar IDs that can be used with other calendar tools. Use create-calendar to add a secondary calendar.',
     readOnly: true,
     requiredScopes: ['Calendars.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {},
     },
-    handler: listCalendars,
+    handler: listCalendars,
+  },
+  {
+    name: 'list-calendar-groups',
+    description: `List calendar groups ("My Calendars", "Other Calendars", custom groups), optionally with the calendars in each.
+
+Use the group ID with create-calendar to create a calendar inside a group.
+
+Examples:
+- { }
+- With calendars: { "includeCalendars": true }`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        includeCalendars: {
+          type: 'boolean',
+          description: 'Include the calendars of each group (default: false)',
+        },
+      },
+    },
+    handler: listCalendarGroups,
+  },
+  {
+    name: 'create-calendar',
+    description: `Create a secondary calendar, e.g. a "Team OOO" calendar to share with your team.
+
+Examples:
+- { "name": "Team OOO" }
+- { "name": "Release dates", "color": "lightGreen", "calendarGroupId": "xxx" }
+
+Returns the new calendar with its ID. Add events to it with create-calendar-event's calendarId, and share it with share-calendar.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Calendar name',
+        },
+        color: {
+          type: 'string',
+          enum: [...CALENDAR_COLORS],
+          description: 'Calendar color (default: auto)',
+        },
+        calendarGroupId: {
+          type: 'string',
+          description: 'Calendar group to create it in (from list-calendar-groups, default: My Calendars)',
+        },
+      },
+      required: ['name'],
+    },
+    handler: createCalendar,
+  },
+  {
+    name: 'update-calendar',
+    description: `Rename a calendar or change its color.
+
+Example: { "calendarId": "xxx", "name": "Team Absences", "color": "lightOrange" }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (from list-calendars)',
+        },
+        name: {
+          type: 'string',
+          description: 'New calendar name',
+        },
+        color: {
+          type: 'string',
+          enum: [...CALENDAR_COLORS],
+          description: 'New calendar color',
+        },
+      },
+      required: ['calendarId'],
+    },
+    handler: updateCalendar,
+  },
+  {
+    name: 'delete-calendar',
+    description: `Delete a secondary calendar and ALL events in it. This cannot be undone.
+
+The default calendar cannot be deleted. Confirm with the user before deleting a calendar that contains events.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (from list-calendars)',
+        },
+      },
+      required: ['calendarId'],
+    },
+    handler: deleteCalendar,
+  },
+  {
+    name: 'share-calendar',
+    description: `Share a calendar with people, change what they can see, or stop sharing. Without recipients, lists who the calendar is shared with.
+
+ROLES:
+- freeBusyRead: sees only when you are busy
+- limitedRead: also sees subject and location
+- read: sees all details
+- write: can create and edit events
+- delegateWithoutPrivateEventAccess / delegateWithPrivateEventAccess: can also respond to meeting requests for you (people in your organization only)
+- none: removes the recipient's access
+
+Recipients are notified by Outlook. People outside your organization can only get freeBusyRead, limitedRead or read (see allowedRoles).
+
+Examples:
+- Share: { "calendarId": "xxx", "recipients": [{ "email": "team@company.com", "role": "read" }] }
+- Stop sharing: { "calendarId": "xxx", "recipients": [{ "email": "bob@company.com", "role": "none" }] }
+- Current permissions: { "calendarId": "xxx" }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (from list-calendars)',
+        },
+        recipients: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              email: { type: 'string', description: 'Email address of the person or group' },
+              role: {
+                type: 'string',
+                enum: [...CALENDAR_ROLES],
+                description: 'Access to grant (default: read); none removes access',
+              },
+            },
+            required: ['email'],
+          },
+          description: 'People to share with and their roles (max 20). Omit to list current permissions.',
+        },
+      },
+      required: ['calendarId'],
+    },
+    handler: shareCalendar,
   },
   {
     name: 'list-calendar-events',
@@ -1031,9 +2553,11 @@ For filtering by organizer/attendees/content, use search-calendar-events instead
 
 Examples:
 - Events this week: { "startAfter": "2026-01-20T00:00:00Z", "startBefore": "2026-01-27T00:00:00Z" }
-- Next 20 events: { "top": 20 }`,
+- Next 20 events: { "top": 20 }
+
+Pagination: if the response contains nextCursor, call again with { "cursor": "<nextCursor>" } to get the next page.`,
     readOnly: true,
-    requiredScopes: ['Calendars.Read'],
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1055,12 +2579,16 @@ Examples:
         },
         skip: {
           type: 'number',
-          description: 'Number of events to skip for pagination',
+          description: 'Number of events to skip. Prefer cursor for paging through results.',
         },
         orderBy: {
           type: 'string',
           description: 'Sort order (default: start/dateTime)',
         },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Other parameters are ignored when set.',
+        },
       },
     },
     handler: listCalendarEvents,
@@ -1085,7 +2613,7 @@ Examples:
 - Teams meetings: { "isOnlineMeeting": true, "startAfter": "2026-01-20T00:00:00Z", "startBefore": "2026-01-27T00:00:00Z" }
 - With attendee: { "attendees": ["bob@company.com"], "startAfter": "2026-01-01T00:00:00Z" }`,
     readOnly: true,
-    requiredScopes: ['Calendars.Read'],
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1126,6 +2654,10 @@ Examples:
           type: 'number',
           description: 'Maximum number of events to return (default: 25)',
         },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Pass the same organizerEmail/attendees/isOnlineMeeting filters again - they are applied client-side.',
+        },
       },
     },
     handler: searchCalendarEvents,
@@ -1135,10 +2667,10 @@ Examples:
     description: `Find available meeting times when attendees are free. Checks everyone's free/busy status and returns ranked suggestions.
 
 AUTOMATIC ROOM LOOKUP (when isOnlineMeeting=false):
-- System automatically fetches all available rooms
-- Includes rooms as resource attendees in availability check
-- Results show which rooms are free for each time slot
-- No need to manually specify rooms!
+- System looks up rooms matching the room filters (roomList, building, floor, minCapacity, equipment, ...)
+- Checks up to ${MAX_ROOM_CANDIDATES} of them as resource attendees (smallest fitting first with minCapacity)
+- Results show which rooms are free for each time slot; _roomSearch tells how many rooms matched and were checked
+- No need to manually specify rooms - but filter them, large organizations have more rooms than can be checked
 
 EMAIL ADDRESSES REQUIRED:
 - If user provides names: First use lookup-contact-email with {"query": "Jane Smith"} to find emails, then call this tool
@@ -1160,10 +2692,12 @@ Examples:
 - 1-hour, 9-11am: {"attendees": [{"email": "alice@company.com", "type": "required"}], "durationMinutes": 60, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-02-03T23:59:59", "meetingHoursStart": "09:00:00", "meetingHoursEnd": "11:00:00"}
 - 30-min Teams: {"attendees": [{"email": "alice@company.com"}, {"email": "bob@company.com"}], "durationMinutes": 30, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-01-24T23:59:59", "isOnlineMeeting": true}
 - In-person: {"attendees": [{"email": "alice@company.com"}], "durationMinutes": 60, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-01-24T23:59:59", "isOnlineMeeting": false}
+- Room for 8 with a display: {"attendees": [{"email": "alice@company.com"}], "durationMinutes": 60, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-01-24T23:59:59", "isOnlineMeeting": false, "building": "Building B", "minCapacity": 8, "requireDisplay": true}
+- Whole team: {"attendees": [{"email": "team-eng@company.com"}], "durationMinutes": 30, "searchWindowStart": "2026-01-20T00:00:00", "searchWindowEnd": "2026-01-24T23:59:59", "expandGroups": true}
 
 After finding times, use create-calendar-event to book.`,
     readOnly: true,
-    requiredScopes: ['Calendars.Read.Shared'],
+    requiredScopes: ['Calendars.Read.Shared', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1203,6 +2737,10 @@ After finding times, use create-calendar-event to book.`,
           type: 'boolean',
           description: 'Suggest as Teams/online meeting (default: false)',
         },
+        expandGroups: {
+          type: 'boolean',
+          description: 'Replace group/distribution list attendees (e.g. team-eng@company.com) with their members so each person\'s availability is checked. Needs the GroupMember.Read.All scope (enable the expand-group tool so it is requested); groups that can\'t be looked up are kept as-is and reported in _expandedGroups. Default: false',
+        },
         isOrganizerOptional: {
           type: 'boolean',
           description: 'If true, suggestions can be returned even when you are busy. IMPORTANT: Only set to true after asking the user if they want to see times despite their conflicts. Never set this silently. Default: false',
@@ -1213,18 +2751,107 @@ After finding times, use create-calendar-event to book.`,
         },
         timeZone: {
           type: 'string',
-          description: 'Time zone for the constraints. Example: "Europe/Berlin", "America/New_York", "UTC"',
+          description: 'Time zone for the constraints and returned times. Example: "Europe/Berlin", "America/New_York", "UTC" (default: your mailbox time zone)',
         },
+        ...ROOM_FILTER_PROPERTIES,
       },
       required: ['attendees', 'searchWindowStart', 'searchWindowEnd'],
     },
     handler: findMeetingTimes,
   },
+  {
+    name: 'find-rooms',
+    description: `Find meeting rooms by location, capacity and equipment, e.g. "a room for 8 with a display in Building B".
+
+Only lists rooms - to see which are free at a given time, pass the same filters to find-meeting-times (isOnlineMeeting: false) or check room emails with get-availability.
+
+Rooms are organized in room lists (usually one per building or site). Equipment and capacity come from the room's directory data; rooms without that data don't match those filters.
+
+Examples:
+- Room lists: { "showRoomLists": true }
+- { "building": "Building B", "minCapacity": 8, "requireDisplay": true }
+- { "roomList": "munich-rooms@company.com", "floor": 3, "requireVideo": true }
+
+Returns: {total, rooms: [{displayName, emailAddress, building, floorNumber, floorLabel, capacity, bookingType, isWheelChairAccessible, displayDeviceName, audioDeviceName, videoDeviceName, city}], nextSkip?}.
+Pagination: if nextSkip is present, call again with { "skip": <nextSkip> } and the same filters.`,
+    readOnly: true,
+    requiredScopes: ['Place.Read.All'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...ROOM_FILTER_PROPERTIES,
+        query: {
+          type: 'string',
+          description: 'Only rooms whose name or email contains this text',
+        },
+        showRoomLists: {
+          type: 'boolean',
+          description: 'Return the room lists instead of rooms (default: false)',
+        },
+        top: {
+          type: 'number',
+          description: 'Number of rooms per page (1-100, default: 25)',
+        },
+        skip: {
+          type: 'number',
+          description: 'Number of rooms to skip (pass nextSkip from a previous response)',
+        },
+      },
+    },
+    handler: findRooms,
+  },
+  {
+    name: 'get-availability',
+    description: `Get free/busy availability for up to 20 people or rooms in a time window. Answers questions like "Is Alice busy Thursday afternoon?".
+
+Returns per person:
+- busy: blocks with status (busy, tentative, oof, workingElsewhere), start/end and _dayInfo. Free time is not listed.
+- workingHours: their configured working days and hours
+- availabilityView: one digit per interval (0=free, 1=tentative, 2=busy, 3=out of office, 4=working elsewhere)
+
+Subjects/locations are only included when the person's calendar is shared with you.
+
+EMAIL ADDRESSES REQUIRED: If you only have names, use lookup-contact-email first.
+
+Use find-meeting-times instead when you want suggested slots where everyone is free.
+
+Example: {"emails": ["alice@company.com", "bob@company.com"], "startDateTime": "2026-01-29T12:00:00", "endDateTime": "2026-01-29T18:00:00"}`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        emails: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Email addresses of people or rooms (max 20)',
+        },
+        startDateTime: {
+          type: 'string',
+          description: 'Start of time window (ISO 8601, without offset). Example: "2026-01-29T12:00:00"',
+        },
+        endDateTime: {
+          type: 'string',
+          description: 'End of time window (ISO 8601, without offset). Example: "2026-01-29T18:00:00"',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'Time zone for the window and returned times (default: your mailbox time zone)',
+        },
+        intervalMinutes: {
+          type: 'number',
+          description: 'Granularity of availabilityView in minutes (5-1440, default: 30)',
+        },
+      },
+      required: ['emails', 'startDateTime', 'endDateTime'],
+    },
+    handler: getAvailability,
+  },
   {
     name: 'get-calendar-event',
-    description: 'Get a single calendar event by its ID',
+    description: 'Get a single calendar event by its ID. The body is returned as plain text; use list-event-attachments to see attached agenda documents.',
     readOnly: true,
-    requiredScopes: ['Calendars.Read'],
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1237,11 +2864,72 @@ After finding times, use create-calendar-event to book.`,
     },
     handler: getCalendarEvent,
   },
+  {
+    name: 'list-event-attachments',
+    description: `List the attachments of a calendar event (e.g. agenda documents), or read one of them.
+
+Without attachmentId: returns metadata only (id, name, contentType, size, isInline).
+With attachmentId: text-like attachments (txt, csv, html, json, xml, ics, eml) and attached emails/events are returned as plain text in the "text" field, capped at maxChars. Binary files (PDF, Office, images) and text files over 5 MB return metadata with extractable: false.`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'ID of one attachment to read (from a previous call without attachmentId)',
+        },
+        maxChars: {
+          type: 'number',
+          description: 'Maximum characters of text to return when reading an attachment (100-100000, default: 20000)',
+        },
+      },
+      required: ['eventId'],
+    },
+    handler: listEventAttachments,
+  },
+  {
+    name: 'add-event-attachment',
+    description: `Attach files to an existing calendar event, e.g. an agenda for a meeting.
+
+Each attachment is either a new file {name, contentType, contentBytes (base64)} or an existing mail attachment {messageId, attachmentId} - e.g. an agenda received by email (IDs from list-mail-attachments). Large files (over 3 MB) are uploaded automatically.`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite', 'Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        attachments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'File name including extension (e.g., "agenda.pdf")' },
+              contentType: { type: 'string', description: 'MIME type (e.g., "application/pdf"). Default: application/octet-stream' },
+              contentBytes: { type: 'string', description: 'File content, base64-encoded' },
+              messageId: { type: 'string', description: 'To copy an existing mail attachment: ID of the message that has it' },
+              attachmentId: { type: 'string', description: 'To copy an existing mail attachment: its ID (from list-mail-attachments)' },
+            },
+          },
+          description: 'Files to attach',
+        },
+      },
+      required: ['eventId', 'attachments'],
+    },
+    handler: addEventAttachment,
+  },
   {
     name: 'get-calendar-view',
     description: 'Get calendar events within a specific time range',
     readOnly: true,
-    requiredScopes: ['Calendars.Read'],
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1261,11 +2949,55 @@ After finding times, use create-calendar-event to book.`,
           type: 'number',
           description: 'Maximum number of events to return',
         },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Other parameters are ignored when set.',
+        },
       },
       required: ['startDateTime', 'endDateTime'],
     },
     handler: getCalendarView,
   },
+  {
+    name: 'export-calendar-events-ics',
+    description: `Export the events in a time range as an iCalendar (.ics) file, e.g. to share a schedule or move it into another calendar app.
+
+Returns RFC 5545 text with time zone definitions, attendees (with their responses) and Teams links.
+Recurring meetings are exported once as a series with its RRULE, deleted occurrences as exclusions (EXDATE) and modified occurrences as overrides. Series whose deleted occurrences can't be read are exported occurrence by occurrence. Set expandRecurrences: true to export each occurrence in the range as a separate event instead.
+
+Examples:
+- Next week: { "startDateTime": "2026-02-02T00:00:00", "endDateTime": "2026-02-09T00:00:00" }
+- Every occurrence separately: { "startDateTime": "2026-02-01T00:00:00", "endDateTime": "2026-03-01T00:00:00", "expandRecurrences": true }`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        startDateTime: {
+          type: 'string',
+          description: 'Start of time range (ISO 8601 format)',
+        },
+        endDateTime: {
+          type: 'string',
+          description: 'End of time range (ISO 8601 format)',
+        },
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (default: primary calendar)',
+        },
+        expandRecurrences: {
+          type: 'boolean',
+          description: 'Export each occurrence of recurring meetings as its own event instead of the series (default: false)',
+        },
+        maxEvents: {
+          type: 'number',
+          description: 'Maximum number of events to read from the range (1-1000, default: 250)',
+        },
+      },
+      required: ['startDateTime', 'endDateTime'],
+    },
+    handler: exportCalendarEventsIcs,
+  },
   {
     name: 'create-calendar-event',
     description: `Create a new calendar event.
@@ -1276,9 +3008,13 @@ TEAMS MEETINGS:
 
 IN-PERSON MEETINGS:
 - Set isOnlineMeeting=false for physical meetings
-- Set location field to room name/address`,
+- Set location field to room name/address
+
+RECURRING MEETINGS:
+- Set recurrence, e.g. weekly 1:1 every Tuesday: {"pattern": "weekly", "daysOfWeek": ["tuesday"]}
+- start/end are the times of the FIRST occurrence`,
     readOnly: false,
-    requiredScopes: ['Calendars.ReadWrite'],
+    requiredScopes: ['Calendars.ReadWrite', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1296,7 +3032,7 @@ IN-PERSON MEETINGS:
         },
         timeZone: {
           type: 'string',
-          description: 'Time zone (default: Europe/Berlin)',
+          description: 'Time zone (default: your mailbox time zone)',
         },
         body: {
           type: 'string',
@@ -1323,6 +3059,21 @@ IN-PERSON MEETINGS:
           type: 'string',
           description: 'Calendar ID (default: primary calendar)',
         },
+        recurrence: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'], description: 'Repeat frequency' },
+            interval: { type: 'number', description: 'Repeat every N days/weeks/months/years (default: 1)' },
+            daysOfWeek: { type: 'array', items: { type: 'string' }, description: 'Weekdays, e.g. ["tuesday"]. weekly: defaults to the start date weekday. monthly/yearly: makes it relative (e.g. "second tuesday")' },
+            dayOfMonth: { type: 'number', description: 'Day of month for monthly/yearly (default: start date day)' },
+            weekIndex: { type: 'string', enum: ['first', 'second', 'third', 'fourth', 'last'], description: 'Which week for relative monthly/yearly (default: first). Requires daysOfWeek' },
+            month: { type: 'number', description: 'Month (1-12) for yearly (default: start date month)' },
+            endDate: { type: 'string', description: 'Last date of the series (YYYY-MM-DD)' },
+            numberOfOccurrences: { type: 'number', description: 'Number of occurrences (alternative to endDate). Omit both for no end.' },
+          },
+          required: ['pattern'],
+          description: 'Make this a recurring event. Examples: weekly on Tuesday {"pattern": "weekly", "daysOfWeek": ["tuesday"]}; every 2 weeks for 10 times {"pattern": "weekly", "interval": 2, "numberOfOccurrences": 10}; second Monday monthly {"pattern": "monthly", "daysOfWeek": ["monday"], "weekIndex": "second"}',
+        },
         attendees: {
           type: 'array',
           items: {
@@ -1340,6 +3091,56 @@ IN-PERSON MEETINGS:
     },
     handler: createCalendarEvent,
   },
+  {
+    name: 'import-ics-event',
+    description: `Add an event from iCalendar (.ics) content to your calendar, e.g. a booking confirmation or an invite from an external calendar system.
+
+SOURCES:
+- ics: the raw .ics text
+- messageId + attachmentId: an .ics file attached to an email (find it with list-mail-attachments)
+
+The event is created like create-calendar-event: start, end, time zone, all-day, location, description and recurrence (RRULE) are taken over. No Teams link is added.
+Attendees are NOT invited unless includeAttendees is true, since that sends invitations from you.
+If the file contains several events, the first one is imported; pass uid to pick another.
+
+Examples:
+- From an attachment: { "messageId": "xxx", "attachmentId": "yyy" }
+- From text: { "ics": "BEGIN:VCALENDAR\\r\\nBEGIN:VEVENT\\r\\n..." }
+
+Returns the created event, plus importNotes for anything that was not taken over (extra events, EXDATE exclusions, attendees).`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite', 'Mail.Read', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ics: {
+          type: 'string',
+          description: 'iCalendar text containing at least one VEVENT',
+        },
+        messageId: {
+          type: 'string',
+          description: 'Alternatively: ID of the email with the .ics attachment',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'ID of the .ics attachment (with messageId)',
+        },
+        uid: {
+          type: 'string',
+          description: 'UID of the event to import when the content has several (default: the first)',
+        },
+        includeAttendees: {
+          type: 'boolean',
+          description: 'Invite the attendees listed in the event (default: false)',
+        },
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID (default: primary calendar)',
+        },
+      },
+    },
+    handler: importIcsEvent,
+  },
   {
     name: 'create-draft-calendar-event',
     description: `Create a calendar event draft without sending invitations. Event is saved to calendar but attendees NOT notified until user sends from Outlook.
@@ -1356,7 +3157,7 @@ Use this to prepare meetings for user review before sending invitations. Safer t
 
 Draft event appears with "[Draft]" indicator. User can send from Outlook or you can use update-calendar-event to modify.`,
     readOnly: false,
-    requiredScopes: ['Calendars.ReadWrite'],
+    requiredScopes: ['Calendars.ReadWrite', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1374,7 +3175,7 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
         },
         timeZone: {
           type: 'string',
-          description: 'Time zone (default: Europe/Berlin)',
+          description: 'Time zone (default: your mailbox time zone)',
         },
         body: {
           type: 'string',
@@ -1405,6 +3206,21 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
           type: 'string',
           description: 'Calendar ID (default: primary calendar)',
         },
+        recurrence: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'], description: 'Repeat frequency' },
+            interval: { type: 'number', description: 'Repeat every N days/weeks/months/years (default: 1)' },
+            daysOfWeek: { type: 'array', items: { type: 'string' }, description: 'Weekdays, e.g. ["tuesday"]. weekly: defaults to the start date weekday. monthly/yearly: makes it relative (e.g. "second tuesday")' },
+            dayOfMonth: { type: 'number', description: 'Day of month for monthly/yearly (default: start date day)' },
+            weekIndex: { type: 'string', enum: ['first', 'second', 'third', 'fourth', 'last'], description: 'Which week for relative monthly/yearly (default: first). Requires daysOfWeek' },
+            month: { type: 'number', description: 'Month (1-12) for yearly (default: start date month)' },
+            endDate: { type: 'string', description: 'Last date of the series (YYYY-MM-DD)' },
+            numberOfOccurrences: { type: 'number', description: 'Number of occurrences (alternative to endDate). Omit both for no end.' },
+          },
+          required: ['pattern'],
+          description: 'Make this a recurring event. Examples: weekly on Tuesday {"pattern": "weekly", "daysOfWeek": ["tuesday"]}; every 2 weeks for 10 times {"pattern": "weekly", "interval": 2, "numberOfOccurrences": 10}; second Monday monthly {"pattern": "monthly", "daysOfWeek": ["monday"], "weekIndex": "second"}',
+        },
         attendees: {
           type: 'array',
           items: {
@@ -1424,9 +3240,15 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
   },
   {
     name: 'update-calendar-event',
-    description: 'Update an existing calendar event',
+    description: `Update an existing calendar event.
+
+RECURRING EVENTS:
+- applyTo="occurrence" (default): changes only the given occurrence
+- applyTo="series": changes the whole series (works when given any occurrence ID)
+- Setting recurrence always updates the series
+- Use list-event-instances to find occurrence IDs`,
     readOnly: false,
-    requiredScopes: ['Calendars.ReadWrite'],
+    requiredScopes: ['Calendars.ReadWrite', 'MailboxSettings.Read'],
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1470,6 +3292,26 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
           },
           description: 'List of attendees (replaces existing). Use simplified format: [{"email": "john@company.com", "type": "required"}]. Do NOT use Graph API format like emailAddress.address.',
         },
+        recurrence: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'], description: 'Repeat frequency' },
+            interval: { type: 'number', description: 'Repeat every N days/weeks/months/years (default: 1)' },
+            daysOfWeek: { type: 'array', items: { type: 'string' }, description: 'Weekdays, e.g. ["tuesday"]. weekly: defaults to the start date weekday. monthly/yearly: makes it relative (e.g. "second tuesday")' },
+            dayOfMonth: { type: 'number', description: 'Day of month for monthly/yearly (default: start date day)' },
+            weekIndex: { type: 'string', enum: ['first', 'second', 'third', 'fourth', 'last'], description: 'Which week for relative monthly/yearly (default: first). Requires daysOfWeek' },
+            month: { type: 'number', description: 'Month (1-12) for yearly (default: start date month)' },
+            endDate: { type: 'string', description: 'Last date of the series (YYYY-MM-DD)' },
+            numberOfOccurrences: { type: 'number', description: 'Number of occurrences (alternative to endDate). Omit both for no end.' },
+          },
+          required: ['pattern'],
+          description: 'Change the recurrence pattern of the series. Examples: weekly on Tuesday {"pattern": "weekly", "daysOfWeek": ["tuesday"]}; every 2 weeks for 10 times {"pattern": "weekly", "interval": 2, "numberOfOccurrences": 10}; second Monday monthly {"pattern": "monthly", "daysOfWeek": ["monday"], "weekIndex": "second"}',
+        },
+        applyTo: {
+          type: 'string',
+          enum: ['occurrence', 'series'],
+          description: 'For recurring events: update only this occurrence (default) or the whole series',
+        },
       },
       required: ['eventId'],
     },
@@ -1477,7 +3319,16 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
   },
   {
     name: 'delete-calendar-event',
-    description: 'Delete a calendar event',
+    description: `Delete a calendar event.
+
+MEETINGS YOU ORGANIZE:
+- If you are the organizer and the meeting has attendees, this tool does NOT delete and returns a _warning instead
+- Use cancel-calendar-event with a comment so attendees learn why
+- Only set force=true if the user explicitly wants to delete without a cancellation message
+
+RECURRING EVENTS:
+- applyTo="occurrence" (default): deletes only the given occurrence
+- applyTo="series": deletes the whole series (works when given any occurrence ID)`,
     readOnly: false,
     requiredScopes: ['Calendars.ReadWrite'],
     inputSchema: {
@@ -1487,9 +3338,138 @@ Draft event appears with "[Draft]" indicator. User can send from Outlook or you
           type: 'string',
           description: 'The ID of the event to delete',
         },
+        applyTo: {
+          type: 'string',
+          enum: ['occurrence', 'series'],
+          description: 'For recurring events: delete only this occurrence (default) or the whole series',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Delete even if you organize this meeting and it has attendees (default: false). Prefer cancel-calendar-event.',
+        },
       },
       required: ['eventId'],
     },
     handler: deleteCalendarEvent,
   },
+  {
+    name: 'cancel-calendar-event',
+    description: `Cancel a meeting you organize. Sends a cancellation message with your comment to all attendees and removes the meeting from calendars.
+
+Use this instead of delete-calendar-event for meetings with attendees. Only the organizer can cancel - for meetings organized by someone else, use respond-to-event with response="decline".
+
+Example: { "eventId": "xxx", "comment": "Cancelling as the launch moved to next quarter. Will reschedule." }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the meeting to cancel',
+        },
+        comment: {
+          type: 'string',
+          description: 'Message to attendees explaining the cancellation',
+        },
+        applyTo: {
+          type: 'string',
+          enum: ['occurrence', 'series'],
+          description: 'For recurring meetings: cancel only this occurrence (default) or the whole series',
+        },
+      },
+      required: ['eventId'],
+    },
+    handler: cancelCalendarEvent,
+  },
+  {
+    name: 'list-event-instances',
+    description: `List the occurrences of a recurring event within a time range. Accepts the series master ID or the ID of any occurrence.
+
+Use this to find the ID of a specific occurrence (e.g. "next Tuesday's 1:1") before updating or deleting just that occurrence.`,
+    readOnly: true,
+    requiredScopes: ['Calendars.Read', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'ID of the recurring event (series master or any occurrence)',
+        },
+        startDateTime: {
+          type: 'string',
+          description: 'Start of time range (ISO 8601). Example: "2026-01-01T00:00:00"',
+        },
+        endDateTime: {
+          type: 'string',
+          description: 'End of time range (ISO 8601). Example: "2026-03-31T23:59:59"',
+        },
+        top: {
+          type: 'number',
+          description: 'Maximum number of occurrences to return (1-50, default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page.',
+        },
+      },
+      required: ['eventId', 'startDateTime', 'endDateTime'],
+    },
+    handler: listEventInstances,
+  },
+  {
+    name: 'respond-to-event',
+    description: `Respond to a meeting invitation: accept, tentatively accept, or decline.
+
+Works with either the calendar event ID or the ID of the meeting request email in the inbox (the linked event is resolved automatically).
+
+Options:
+- comment: Optional message to the organizer
+- sendResponse: Set false to update your calendar without notifying the organizer (default: true)
+- proposedNewTime: Suggest a different time (only with decline or tentativelyAccept, and not with sendResponse: false). Organizer must allow new time proposals.
+
+Examples:
+- Accept: { "eventId": "xxx", "response": "accept" }
+- Decline from invite email: { "messageId": "yyy", "response": "decline", "comment": "Sorry, I'm out that day" }
+- Propose new time: { "eventId": "xxx", "response": "tentativelyAccept", "proposedNewTime": { "start": "2026-01-28T14:00:00", "end": "2026-01-28T15:00:00", "timeZone": "Europe/Berlin" } }`,
+    readOnly: false,
+    requiredScopes: ['Calendars.ReadWrite', 'Mail.Read', 'MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the calendar event to respond to',
+        },
+        messageId: {
+          type: 'string',
+          description: 'Alternatively: the ID of the meeting request email (from list-mail-messages or search-mail)',
+        },
+        response: {
+          type: 'string',
+          enum: ['accept', 'tentativelyAccept', 'decline'],
+          description: 'Your response to the invitation',
+        },
+        comment: {
+          type: 'string',
+          description: 'Optional message to the organizer',
+        },
+        sendResponse: {
+          type: 'boolean',
+          description: 'Send the response to the organizer (default: true)',
+        },
+        proposedNewTime: {
+          type: 'object',
+          properties: {
+            start: { type: 'string', description: 'Proposed start time (ISO 8601, without offset)' },
+            end: { type: 'string', description: 'Proposed end time (ISO 8601, without offset)' },
+            timeZone: { type: 'string', description: 'Time zone (default: your mailbox time zone)' },
+          },
+          description: 'Propose a different time (decline or tentativelyAccept only). Format: {"start": "...", "end": "...", "timeZone": "..."}',
+        },
+      },
+      required: ['response'],
+    },
+    handler: respondToEvent,
+  },
 ];
@@ -0,0 +1,389 @@
+/**
+ * Organization directory tools for Microsoft Graph API
+ */
+
+import { z } from 'zod';
+import { graphRequest, decodeCursor, encodeCursor, getNextLink, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { resolveGroup, listGroupMembers } from '../graph/groups.js';
+import { serializeResponse } from '../utils/tonl.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const searchDirectoryUsersSchema = z.object({
+  query: z.string().min(1),
+  top: z.number().min(1).max(25).optional().default(10),
+});
+
+const getUserProfileSchema = z.object({
+  user: z.string().optional(),
+});
+
+const getManagerSchema = z.object({
+  user: z.string().optional(),
+});
+
+const getDirectReportsSchema = z.object({
+  user: z.string().optional(),
+  top: z.number().min(1).max(100).optional().default(50),
+  cursor: z.string().optional(),
+});
+
+const expandGroupSchema = z.object({
+  group: z.string().min(1),
+  transitive: z.boolean().optional().default(true),
+  maxMembers: z.number().min(1).max(1000).optional().default(100),
+});
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/** Directory fields used for the compact profile */
+const PROFILE_SELECT = 'id,displayName,mail,userPrincipalName,jobTitle,department,officeLocation,businessPhones,mobilePhone';
+
+interface DirectoryUser {
+  '@odata.type'?: string;
+  id?: string;
+  displayName?: string;
+  mail?: string;
+  userPrincipalName?: string;
+  jobTitle?: string;
+  department?: string;
+  officeLocation?: string;
+  businessPhones?: string[];
+  mobilePhone?: string;
+}
+
+/**
+ * Compact a directory user into the profile shape returned by the directory tools
+ */
+function toProfile(user: DirectoryUser): Record<string, unknown> {
+  return {
+    id: user.id,
+    displayName: user.displayName,
+    email: user.mail || user.userPrincipalName,
+    jobTitle: user.jobTitle || undefined,
+    department: user.department || undefined,
+    officeLocation: user.officeLocation || undefined,
+    businessPhones: user.businessPhones?.length ? user.businessPhones : undefined,
+    mobilePhone: user.mobilePhone || undefined,
+  };
+}
+
+/**
+ * Directory path for a user (email, UPN or ID), or /me when omitted
+ */
+function userPath(user: string | undefined): string {
+  return user ? `/users/${encodeURIComponent(user)}` : '/me';
+}
+
+/**
+ * Search the organization directory by name or email
+ */
+async function searchDirectoryUsers(params: Record<string, unknown>) {
+  const { query, top } = searchDirectoryUsersSchema.parse(params);
+  
+  try {
+    // Quotes delimit $search terms, so they can't appear inside one
+    const term = query.replace(/"/g, '').trim();
+    
+    const queryParams = new URLSearchParams();
+    queryParams.set('$search', `"displayName:${term}" OR "mail:${term}"`);
+    queryParams.set('$top', String(top));
+    queryParams.set('$select', PROFILE_SELECT);
+    
+    // $search on directory objects requires eventual consistency
+    const response = await graphRequest<{ value?: DirectoryUser[] }>(`/users?${queryParams.toString()}`, {
+      headers: { 'ConsistencyLevel': 'eventual' },
+    });
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse((response.data?.value || []).map(toProfile)),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a user's directory profile
+ */
+async function getUserProfile(params: Record<string, unknown>) {
+  const { user } = getUserProfileSchema.parse(params);
+  
+  try {
+    const response = await graphRequest<DirectoryUser>(`${userPath(user)}?$select=${PROFILE_SELECT}`);
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(toProfile(response.data)),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a user's manager
+ */
+async function getManager(params: Record<string, unknown>) {
+  const { user } = getManagerSchema.parse(params);
+  
+  try {
+    const response = await graphRequest<DirectoryUser>(`${userPath(user)}/manager?$select=${PROFILE_SELECT}`);
+    
+    // 404 means no manager is set, which is a valid answer rather than an error
+    if (response.status === 404) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ manager: null, message: `No manager is set for ${user || 'you'} in the directory` }),
+        }],
+      };
+    }
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(toProfile(response.data)),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * List a user's direct reports
+ */
+async function getDirectReports(params: Record<string, unknown>) {
+  const { user, top, cursor } = getDirectReportsSchema.parse(params);
+  
+  try {
+    const url = cursor
+      ? decodeCursor(cursor, 'directory')
+      : `${userPath(user)}/directReports?$top=${top}&$select=${PROFILE_SELECT}`;
+    
+    const response = await graphRequest<{ value?: DirectoryUser[] }>(url);
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    // Direct reports can include non-user objects (e.g. org contacts); keep users only
+    const reports = (response.data?.value || [])
+      .filter(r => !r['@odata.type'] || r['@odata.type'] === '#microsoft.graph.user')
+      .map(toProfile);
+    
+    const nextLink = getNextLink(response.data);
+    const result: Record<string, unknown> = { directReports: reports };
+    if (nextLink) {
+      result.nextCursor = encodeCursor(nextLink);
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(result),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Expand a group or distribution list into its members
+ */
+async function expandGroup(params: Record<string, unknown>) {
+  const { group, transitive, maxMembers } = expandGroupSchema.parse(params);
+  
+  try {
+    const groupInfo = await resolveGroup(group);
+    const { members, truncated } = await listGroupMembers(groupInfo.id, { transitive, maxMembers });
+    
+    const result: Record<string, unknown> = {
+      group: groupInfo,
+      memberCount: members.length,
+      members: members.map(m => ({
+        displayName: m.displayName,
+        email: m.email,
+        type: m.type === 'user' ? undefined : m.type,
+      })),
+    };
+    if (truncated) {
+      result.truncated = true;
+      result.message = `Only the first ${maxMembers} members are shown. Increase maxMembers to see more.`;
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(result),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+// ============================================================================
+// Tool Definitions for MCP
+// ============================================================================
+
+export const directoryToolDefinitions = [
+  {
+    name: 'search-directory-users',
+    description: `Search your organization's directory for people by name or email.
+
+Use this for colleagues (job title, department, office) - lookup-contact-email ranks people you communicate with, including external contacts.
+
+Examples:
+- { "query": "Bob" }
+- { "query": "jane.doe@company.com" }
+
+Returns: Array of {id, displayName, email, jobTitle, department, officeLocation, businessPhones, mobilePhone}.`,
+    readOnly: true,
+    requiredScopes: ['User.Read.All'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Name or email (prefix matching, e.g. "Bob" or "bob.sm")',
+        },
+        top: {
+          type: 'number',
+          description: 'Maximum number of users to return (1-25, default: 10)',
+        },
+      },
+      required: ['query'],
+    },
+    handler: searchDirectoryUsers,
+  },
+  {
+    name: 'get-user-profile',
+    description: `Get a colleague's directory profile: job title, department, office, phones.
+
+Examples:
+- Someone else: { "user": "jane.doe@company.com" }
+- Yourself: {}`,
+    readOnly: true,
+    requiredScopes: ['User.Read.All'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        user: {
+          type: 'string',
+          description: 'Email, user principal name or directory ID (default: you). Use search-directory-users to find it from a name.',
+        },
+      },
+    },
+    handler: getUserProfile,
+  },
+  {
+    name: 'get-manager',
+    description: `Get someone's manager from the directory, e.g. before escalating.
+
+Examples:
+- "Who is Bob's manager?": { "user": "bob@company.com" }
+- Your own manager: {}
+
+Returns the manager's profile, or manager: null when none is set.`,
+    readOnly: true,
+    requiredScopes: ['User.Read.All'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        user: {
+          type: 'string',
+          description: 'Email, user principal name or directory ID (default: you)',
+        },
+      },
+    },
+    handler: getManager,
+  },
+  {
+    name: 'get-direct-reports',
+    description: `List the people who report directly to someone.
+
+Examples:
+- { "user": "jane.doe@company.com" }
+- Your own reports: {}
+
+Pagination: if the response contains nextCursor, call again with { "cursor": "<nextCursor>" } to get the next page.`,
+    readOnly: true,
+    requiredScopes: ['User.Read.All'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        user: {
+          type: 'string',
+          description: 'Email, user principal name or directory ID (default: you)',
+        },
+        top: {
+          type: 'number',
+          description: 'Number of reports per page (1-100, default: 50)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Other parameters are ignored when set.',
+        },
+      },
+    },
+    handler: getDirectReports,
+  },
+  {
+    name: 'expand-group',
+    description: `Resolve a group or distribution list address (e.g. team-eng@company.com) to its members.
+
+Use this when an invite or email goes to a list and you need to know who is on it.
+Works for Microsoft 365 groups, distribution lists and mail-enabled security groups.
+
+Examples:
+- { "group": "team-eng@company.com" }
+- Direct members only (nested groups listed as entries): { "group": "team-eng@company.com", "transitive": false }
+
+Returns: {group: {id, displayName, mail, kind}, memberCount, members: [{displayName, email, type?}]}. type is omitted for users.`,
+    readOnly: true,
+    requiredScopes: ['GroupMember.Read.All'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        group: {
+          type: 'string',
+          description: 'Group email address or group ID',
+        },
+        transitive: {
+          type: 'boolean',
+          description: 'Include members of nested groups (default: true)',
+        },
+        maxMembers: {
+          type: 'number',
+          description: 'Maximum number of members to return (1-1000, default: 100)',
+        },
+      },
+      required: ['group'],
+    },
+    handler: expandGroup,
+  },
+];
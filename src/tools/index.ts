@@ -5,7 +5,12 @@
 import { mailToolDefinitions } from './mail.js';
 import { calendarToolDefinitions } from './calendar.js';
 import { peopleToolDefinitions } from './people.js';
+import { directoryToolDefinitions } from './directory.js';
+import { mailboxToolDefinitions } from './mailbox.js';
 import { getConfig } from '../config.js';
+import { formatErrorResponse } from '../graph/client.js';
+import { isSharedMailboxAccessEnabled, assertSharedMailboxAllowed } from '../graph/shared-mailboxes.js';
+import { runWithMailbox } from '../utils/context.js';
 import logger from '../utils/logger.js';
 
 export interface ToolDefinition {
@@ -33,8 +38,65 @@ export const allTools: ToolDefinition[] = [
   ...mailToolDefinitions as ToolDefinition[],
   ...calendarToolDefinitions as ToolDefinition[],
   ...peopleToolDefinitions as ToolDefinition[],
+  ...directoryToolDefinitions as ToolDefinition[],
+  ...mailboxToolDefinitions as ToolDefinition[],
 ];
 
+/** Tools that can act on a shared/delegated mailbox via the `mailbox` parameter */
+const MAILBOX_TOOL_NAMES = new Set([
+  ...mailToolDefinitions.map(t => t.name),
+  ...calendarToolDefinitions.map(t => t.name),
+]);
+
+/** Extra scope needed to use each scope on someone else's mailbox */
+const SHARED_SCOPES: Record<string, string> = {
+  'Mail.Read': 'Mail.Read.Shared',
+  'Mail.ReadWrite': 'Mail.ReadWrite.Shared',
+  'Mail.Send': 'Mail.Send.Shared',
+  'Calendars.Read': 'Calendars.Read.Shared',
+  'Calendars.ReadWrite': 'Calendars.ReadWrite.Shared',
+};
+
+/**
+ * Add the optional `mailbox` parameter to a mail/calendar tool
+ * Calls with a mailbox are checked against the allowlist and run with /me paths
+ * redirected to /users/{mailbox}.
+ */
+function withMailboxParameter(tool: ToolDefinition): ToolDefinition {
+  const sharedScopes = tool.requiredScopes
+    .map(scope => SHARED_SCOPES[scope])
+    .filter((scope): scope is string => scope !== undefined);
+  
+  return {
+    ...tool,
+    requiredScopes: [...new Set([...tool.requiredScopes, ...sharedScopes])],
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        mailbox: {
+          type: 'string',
+          description: 'Act on a shared or delegated mailbox (email/UPN or user ID) instead of your own. Must be one of the shared mailboxes configured on the server.',
+        },
+      },
+    },
+    handler: async (params) => {
+      const { mailbox, ...rest } = params;
+      if (typeof mailbox !== 'string' || mailbox.trim() === '') {
+        return tool.handler(rest);
+      }
+      
+      try {
+        assertSharedMailboxAllowed(mailbox);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+      
+      return runWithMailbox(mailbox.trim(), () => tool.handler(rest));
+    },
+  };
+}
+
 /**
  * Get tool by name
  */
@@ -69,12 +131,23 @@ export function getFilteredTools(): ToolDefinition[] {
     tools = tools.filter(t => t.readOnly);
   }
 
+  // Expose the mailbox parameter only when shared mailboxes are configured
+  if (isSharedMailboxAccessEnabled()) {
+    tools = tools.map(t => MAILBOX_TOOL_NAMES.has(t.name) ? withMailboxParameter(t) : t);
+  }
+
   return tools;
 }
 
 /** Base scopes always required for the server to function */
 const BASE_SCOPES = ['User.Read', 'offline_access'];
 
+/** Scopes that already grant a narrower scope, so the narrower one isn't requested twice */
+const SUPERSEDING_SCOPES: Record<string, string> = {
+  'MailboxSettings.Read': 'MailboxSettings.ReadWrite',
+  'Contacts.Read': 'Contacts.ReadWrite',
+};
+
 /**
  * Get required OAuth scopes based on enabled tools
  * Returns only the scopes needed for the currently enabled tools.
@@ -91,6 +164,12 @@ export function getRequiredScopes(): string[] {
     }
   }
   
+  for (const [scope, broader] of Object.entries(SUPERSEDING_SCOPES)) {
+    if (scopeSet.has(broader)) {
+      scopeSet.delete(scope);
+    }
+  }
+  
   const scopes = Array.from(scopeSet);
   
   logger.debug('Required scopes computed', {
@@ -106,4 +185,6 @@ export function getRequiredScopes(): string[] {
  */
 export * from './mail.js';
 export * from './calendar.js';
-export * from './people.js';
\ No newline at end of file
+export * from './people.js';
+export * from './directory.js';
+export * from './mailbox.js';
\ No newline at end of file
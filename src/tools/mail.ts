@@ -3,7 +3,11 @@
  */
 
 import { z } from 'zod';
-import { graphRequest, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { graphRequest, graphBatchRequest, decodeCursor, handleGraphResponse, formatErrorResponse, formatToolResponse, type GraphBatchRequestItem, type GraphResponse } from '../graph/client.js';
+import { LARGE_ATTACHMENT_THRESHOLD, resolveAttachments, toFileAttachment, addAttachments, getAttachmentContent } from '../graph/attachments.js';
+import { resolveMailFolderId, invalidateMailFolderCache } from '../graph/mail-folders.js';
+import { assertSharedMailboxAllowed } from '../graph/shared-mailboxes.js';
+import { stripHtml } from '../utils/html.js';
 import logger from '../utils/logger.js';
 import { serializeResponse } from '../utils/tonl.js';
 
@@ -23,6 +27,7 @@ const listMailMessagesSchema = z.object({
   hasAttachments: z.boolean().optional(),
   importance: z.enum(['low', 'normal', 'high']).optional(),
   orderBy: z.string().optional().default('receivedDateTime desc'),
+  cursor: z.string().optional(),
 });
 
 const searchMailSchema = z.object({
@@ -40,6 +45,7 @@ const searchMailSchema = z.object({
   received: z.string().optional(),
   folderId: z.string().optional(),
   top: z.number().min(1).max(1000).optional().default(25),
+  cursor: z.string().optional(),
 });
 
 const getMailMessageSchema = z.object({
@@ -47,6 +53,36 @@ const getMailMessageSchema = z.object({
   includeConversationHistory: z.boolean().optional().default(false),
 });
 
+const getMailThreadSchema = z.object({
+  messageId: z.string().optional(),
+  conversationId: z.string().optional(),
+  maxMessages: z.number().min(1).max(100).optional().default(50),
+}).refine(
+  p => p.messageId !== undefined || p.conversationId !== undefined,
+  { message: 'Either messageId or conversationId is required' }
+);
+
+const listMailAttachmentsSchema = z.object({
+  messageId: z.string(),
+});
+
+const getMailAttachmentSchema = z.object({
+  messageId: z.string(),
+  attachmentId: z.string(),
+  maxChars: z.number().min(100).max(100000).optional().default(20000),
+});
+
+const mailAttachmentSchema = z.object({
+  name: z.string().optional(),
+  contentType: z.string().optional(),
+  contentBytes: z.string().optional(),
+  messageId: z.string().optional(),
+  attachmentId: z.string().optional(),
+}).refine(
+  a => (a.contentBytes !== undefined && a.name !== undefined) || (a.messageId !== undefined && a.attachmentId !== undefined),
+  { message: 'Each attachment needs either name + contentBytes, or messageId + attachmentId of an existing attachment' }
+);
+
 const sendMailSchema = z.object({
   to: z.array(z.string()).min(1),
   subject: z.string(),
@@ -56,12 +92,51 @@ const sendMailSchema = z.object({
   bcc: z.array(z.string()).optional(),
   importance: z.enum(['low', 'normal', 'high']).optional().default('normal'),
   saveToSentItems: z.boolean().optional().default(true),
+  attachments: z.array(mailAttachmentSchema).optional(),
+  from: z.string().optional(),
 });
 
 const deleteMailMessageSchema = z.object({
   messageId: z.string(),
 });
 
+const messageUpdateFields = {
+  isRead: z.boolean().optional(),
+  flagStatus: z.enum(['notFlagged', 'flagged', 'complete']).optional(),
+  flagStartDate: z.string().optional(),
+  flagDueDate: z.string().optional(),
+  flagTimeZone: z.string().optional().default('UTC'),
+  categories: z.array(z.string()).optional(),
+  importance: z.enum(['low', 'normal', 'high']).optional(),
+};
+
+const updateMailMessageSchema = z.object({
+  messageId: z.string(),
+  ...messageUpdateFields,
+}).refine(
+  p => p.isRead !== undefined || p.flagStatus !== undefined || p.flagDueDate !== undefined ||
+       p.flagStartDate !== undefined || p.categories !== undefined || p.importance !== undefined,
+  { message: 'At least one of isRead, flagStatus, flagStartDate, flagDueDate, categories or importance is required' }
+);
+
+const moveMailMessagesSchema = z.object({
+  messageIds: z.array(z.string()).min(1).max(200),
+  destinationFolderId: z.string(),
+});
+
+const deleteMailMessagesSchema = z.object({
+  messageIds: z.array(z.string()).min(1).max(200),
+});
+
+const updateMailMessagesSchema = z.object({
+  messageIds: z.array(z.string()).min(1).max(200),
+  ...messageUpdateFields,
+}).refine(
+  p => p.isRead !== undefined || p.flagStatus !== undefined || p.flagDueDate !== undefined ||
+       p.flagStartDate !== undefined || p.categories !== undefined || p.importance !== undefined,
+  { message: 'At least one of isRead, flagStatus, flagStartDate, flagDueDate, categories or importance is required' }
+);
+
 const moveMailMessageSchema = z.object({
   messageId: z.string(),
   destinationFolderId: z.string(),
@@ -75,6 +150,7 @@ const createDraftMailSchema = z.object({
   cc: z.array(z.string()).optional(),
   bcc: z.array(z.string()).optional(),
   importance: z.enum(['low', 'normal', 'high']).optional().default('normal'),
+  attachments: z.array(mailAttachmentSchema).optional(),
 });
 
 const replyMailSchema = z.object({
@@ -87,27 +163,148 @@ const createReplyDraftSchema = z.object({
   comment: z.string().optional(),
 });
 
+const forwardMailSchema = z.object({
+  messageId: z.string(),
+  to: z.array(z.string()).min(1),
+  cc: z.array(z.string()).optional(),
+  comment: z.string().optional(),
+});
+
+const createForwardDraftSchema = z.object({
+  messageId: z.string(),
+  to: z.array(z.string()).optional(),
+  cc: z.array(z.string()).optional(),
+  comment: z.string().optional(),
+});
+
 // ============================================================================
 // Tool Implementations
 // ============================================================================
 
 const listMailFoldersSchema = z.object({
   parentFolderId: z.string().optional(),
+  cursor: z.string().optional(),
+});
+
+const createMailFolderSchema = z.object({
+  displayName: z.string().min(1),
+  parentFolderId: z.string().optional(),
+});
+
+const renameMailFolderSchema = z.object({
+  folderId: z.string(),
+  displayName: z.string().min(1),
+});
+
+const moveMailFolderSchema = z.object({
+  folderId: z.string(),
+  destinationFolderId: z.string(),
+});
+
+const deleteMailFolderSchema = z.object({
+  folderId: z.string(),
 });
 
 /**
  * List mail folders (top-level or subfolders of a specific folder)
  */
 async function listMailFolders(params: Record<string, unknown>) {
-  const { parentFolderId } = listMailFoldersSchema.parse(params);
+  const { parentFolderId, cursor } = listMailFoldersSchema.parse(params);
   
   try {
     // If parentFolderId is provided, list child folders; otherwise list top-level folders
+    const endpoint = cursor
+      ? decodeCursor(cursor)
+      : parentFolderId 
+        ? `/me/mailFolders/${await resolveMailFolderId(parentFolderId)}/childFolders`
+        : '/me/mailFolders';
+    
+    const response = await graphRequest<{ value: unknown[] }>(endpoint);
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Create a mail folder (top-level or nested under parentFolderId)
+ */
+async function createMailFolder(params: Record<string, unknown>) {
+  const { displayName, parentFolderId } = createMailFolderSchema.parse(params);
+  
+  try {
     const endpoint = parentFolderId 
-      ? `/me/mailFolders/${parentFolderId}/childFolders`
+      ? `/me/mailFolders/${await resolveMailFolderId(parentFolderId)}/childFolders`
       : '/me/mailFolders';
     
-    const response = await graphRequest<{ value: unknown[] }>(endpoint);
+    const response = await graphRequest(endpoint, {
+      method: 'POST',
+      body: { displayName },
+    });
+    invalidateMailFolderCache();
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Rename a mail folder
+ */
+async function renameMailFolder(params: Record<string, unknown>) {
+  const { folderId, displayName } = renameMailFolderSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/mailFolders/${await resolveMailFolderId(folderId)}`, {
+      method: 'PATCH',
+      body: { displayName },
+    });
+    invalidateMailFolderCache();
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Move a mail folder (with its contents) under another folder
+ */
+async function moveMailFolder(params: Record<string, unknown>) {
+  const { folderId, destinationFolderId } = moveMailFolderSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/mailFolders/${await resolveMailFolderId(folderId)}/move`, {
+      method: 'POST',
+      body: { destinationId: await resolveMailFolderId(destinationFolderId) },
+    });
+    invalidateMailFolderCache();
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete a mail folder (moves it with its contents to Deleted Items)
+ */
+async function deleteMailFolder(params: Record<string, unknown>) {
+  const { folderId } = deleteMailFolderSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/mailFolders/${await resolveMailFolderId(folderId)}`, {
+      method: 'DELETE',
+    });
+    invalidateMailFolderCache();
+    
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Folder deleted' }),
+        }],
+      };
+    }
+    
     return handleGraphResponse(response);
   } catch (error) {
     return formatErrorResponse(error);
@@ -161,9 +358,15 @@ function buildMailFilter(params: {
  */
 async function listMailMessages(params: Record<string, unknown>) {
   const parsed = listMailMessagesSchema.parse(params);
-  const { folderId, top, skip, senderEmail, receivedAfter, receivedBefore, isRead, hasAttachments, importance, orderBy } = parsed;
+  const { folderId, top, skip, senderEmail, receivedAfter, receivedBefore, isRead, hasAttachments, importance, orderBy, cursor } = parsed;
   
   try {
+    // Cursor already encodes filters, sort and selection of the original query
+    if (cursor) {
+      const response = await graphRequest<{ value: unknown[] }>(decodeCursor(cursor));
+      return handleGraphResponse(response);
+    }
+    
     const queryParams = new URLSearchParams();
     
     if (top) queryParams.set('$top', String(top));
@@ -190,7 +393,7 @@ async function listMailMessages(params: Record<string, unknown>) {
     queryParams.set('$select', 'id,subject,from,toRecipients,ccRecipients,receivedDateTime,isRead,importance,hasAttachments,bodyPreview');
     
     const endpoint = folderId 
-      ? `/me/mailFolders/${folderId}/messages`
+      ? `/me/mailFolders/${await resolveMailFolderId(folderId)}/messages`
       : '/me/messages';
     
     const url = `${endpoint}?${queryParams.toString()}`;
@@ -347,9 +550,19 @@ function buildMailSearchQuery(params: {
  */
 async function searchMail(params: Record<string, unknown>) {
   const parsed = searchMailSchema.parse(params);
-  const { query, from, to, cc, bcc, participants, subject, body, attachment, hasAttachments, importance, received, folderId, top } = parsed;
+  const { query, from, to, cc, bcc, participants, subject, body, attachment, hasAttachments, importance, received, folderId, top, cursor } = parsed;
   
   try {
+    // Cursor already encodes the original search; $search pages can only be reached this way
+    if (cursor) {
+      const response = await graphRequest<{ value: unknown[] }>(decodeCursor(cursor), {
+        headers: {
+          'ConsistencyLevel': 'eventual',
+        },
+      });
+      return handleGraphResponse(response);
+    }
+    
     // If folderId is specified, $search is not supported on folder endpoints
     // Use $filter for simple cases, or fetch and filter client-side
     if (folderId) {
@@ -376,7 +589,7 @@ async function searchMail(params: Record<string, unknown>) {
       if (top) queryParams.set('$top', String(top));
       queryParams.set('$select', 'id,subject,from,toRecipients,ccRecipients,receivedDateTime,isRead,importance,hasAttachments,bodyPreview');
       
-      const url = `/me/mailFolders/${folderId}/messages?${queryParams.toString()}`;
+      const url = `/me/mailFolders/${await resolveMailFolderId(folderId)}/messages?${queryParams.toString()}`;
       
       const response = await graphRequest<{ value: unknown[] }>(url);
       
@@ -426,41 +639,6 @@ async function searchMail(params: Record<string, unknown>) {
   }
 }
 
-/**
- * Strip HTML tags and decode entities for plain text extraction
- */
-function stripHtml(html: string): string {
-  return html
-    // Remove style and script tags with content
-    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-    // Replace common block elements with newlines
-    .replace(/<\/?(p|div|br|hr|tr|li|h[1-6])[^>]*>/gi, '\n')
-    // Remove all remaining HTML tags
-    .replace(/<[^>]+>/g, '')
-    // Decode common HTML entities
-    .replace(/&nbsp;/gi, ' ')
-    .replace(/&amp;/gi, '&')
-    .replace(/&lt;/gi, '<')
-    .replace(/&gt;/gi, '>')
-    .replace(/&quot;/gi, '"')
-    .replace(/&#39;/gi, "'")
-    .replace(/&rsquo;/gi, "'")
-    .replace(/&lsquo;/gi, "'")
-    .replace(/&rdquo;/gi, '"')
-    .replace(/&ldquo;/gi, '"')
-    .replace(/&bull;/gi, '•')
-    .replace(/&mdash;/gi, '—')
-    .replace(/&ndash;/gi, '–')
-    // Collapse multiple newlines
-    .replace(/\n{3,}/g, '\n\n')
-    // Trim whitespace from each line
-    .split('\n')
-    .map(line => line.trim())
-    .join('\n')
-    .trim();
-}
-
 /**
  * Get a single mail message by ID
  * Always returns body as plain text to minimize context window usage
@@ -524,13 +702,161 @@ async function getMailMessage(params: Record<string, unknown>) {
   }
 }
 
+/** Upper bound on messages read per thread, so huge threads can't stall a request */
+const MAX_THREAD_MESSAGES = 250;
+
+/** Page size when reading a thread */
+const THREAD_PAGE_SIZE = 50;
+
+/**
+ * Get a whole conversation thread in chronological order
+ * Each message contributes only its uniqueBody (new content, without quoted replies) as plain text.
+ * The thread is read page by page (up to MAX_THREAD_MESSAGES) and the newest maxMessages are returned.
+ */
+async function getMailThread(params: Record<string, unknown>) {
+  const parsed = getMailThreadSchema.parse(params);
+  const { messageId, maxMessages } = parsed;
+  let conversationId = parsed.conversationId;
+  
+  try {
+    if (!conversationId) {
+      const lookup = await graphRequest<{ conversationId?: string }>(`/me/messages/${messageId}?$select=conversationId`);
+      if (!lookup.ok) {
+        return handleGraphResponse(lookup);
+      }
+      conversationId = lookup.data?.conversationId;
+      if (!conversationId) {
+        return formatErrorResponse(new Error('Message has no conversationId'));
+      }
+    }
+    
+    // /me/messages spans all folders, so replies in Sent Items are included.
+    // $orderby is not combined with this filter (Graph rejects it as too complex), so pages
+    // come in no particular order - read the whole thread, then sort client-side.
+    const queryParams = new URLSearchParams();
+    queryParams.set('$filter', `conversationId eq '${conversationId.replace(/'/g, "''")}'`);
+    queryParams.set('$top', String(THREAD_PAGE_SIZE));
+    queryParams.set('$select', 'id,subject,from,toRecipients,ccRecipients,sentDateTime,receivedDateTime,isDraft,hasAttachments,uniqueBody');
+    
+    type ThreadMessage = {
+      id?: string;
+      subject?: string;
+      from?: { emailAddress?: { name?: string; address?: string } };
+      toRecipients?: Array<{ emailAddress?: { name?: string; address?: string } }>;
+      ccRecipients?: Array<{ emailAddress?: { name?: string; address?: string } }>;
+      sentDateTime?: string;
+      receivedDateTime?: string;
+      isDraft?: boolean;
+      hasAttachments?: boolean;
+      uniqueBody?: { contentType?: string; content?: string };
+    };
+    
+    let url: string | undefined = `/me/messages?${queryParams.toString()}`;
+    const threadMessages: ThreadMessage[] = [];
+    
+    while (url && threadMessages.length < MAX_THREAD_MESSAGES) {
+      const response: GraphResponse<{ value?: ThreadMessage[]; '@odata.nextLink'?: string }> = await graphRequest(url, {
+        headers: {
+          'Prefer': 'outlook.body-content-type="text"',
+        },
+      });
+      
+      if (!response.ok) {
+        return handleGraphResponse(response);
+      }
+      
+      threadMessages.push(...(response.data?.value || []));
+      url = response.data?.['@odata.nextLink'];
+    }
+    
+    // Still a nextLink after the cap: older or newer messages may be missing
+    const incomplete = url !== undefined;
+    
+    const sent = threadMessages
+      .filter(m => !m.isDraft)
+      .sort((a, b) => (a.sentDateTime || a.receivedDateTime || '').localeCompare(b.sentDateTime || b.receivedDateTime || ''));
+    
+    const messages = sent
+      .slice(-maxMessages)
+      .map(m => {
+        const body = m.uniqueBody?.contentType?.toLowerCase() === 'html'
+          ? stripHtml(m.uniqueBody.content || '')
+          : (m.uniqueBody?.content || '').trim();
+        
+        return {
+          id: m.id,
+          sentDateTime: m.sentDateTime || m.receivedDateTime,
+          from: m.from?.emailAddress,
+          to: (m.toRecipients || []).map(r => r.emailAddress?.address).filter(Boolean),
+          cc: (m.ccRecipients || []).map(r => r.emailAddress?.address).filter(Boolean),
+          subject: m.subject,
+          hasAttachments: m.hasAttachments,
+          body,
+        };
+      });
+    
+    const result: Record<string, unknown> = {
+      conversationId,
+      messageCount: messages.length,
+      totalMessages: sent.length,
+      messages,
+    };
+    if (messages.length < sent.length || incomplete) {
+      result.truncated = true;
+      result._note = incomplete
+        ? `Thread has more than ${MAX_THREAD_MESSAGES} messages; only the newest ${messages.length} of the first ${MAX_THREAD_MESSAGES} read are shown.`
+        : `Only the newest ${messages.length} of ${sent.length} messages are shown. Increase maxMessages to see more.`;
+    }
+    
+    return formatToolResponse(result);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * List attachments of a mail message (metadata only, no content)
+ */
+async function listMailAttachments(params: Record<string, unknown>) {
+  const { messageId } = listMailAttachmentsSchema.parse(params);
+  
+  try {
+    // Selecting explicit fields keeps contentBytes out of the response
+    const url = `/me/messages/${messageId}/attachments?$select=id,name,contentType,size,isInline,lastModifiedDateTime`;
+    const response = await graphRequest<{ value: unknown[] }>(url);
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a single mail attachment
+ * Text-like content is returned as plain text (capped at maxChars).
+ * Binary content is never returned - only metadata with a "not extractable" marker.
+ */
+async function getMailAttachment(params: Record<string, unknown>) {
+  const { messageId, attachmentId, maxChars } = getMailAttachmentSchema.parse(params);
+  
+  try {
+    return await getAttachmentContent(`/me/messages/${messageId}/attachments/${attachmentId}`, maxChars);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 /**
  * Send an email
  */
 async function sendMail(params: Record<string, unknown>) {
-  const { to, subject, body, bodyType, cc, bcc, importance, saveToSentItems } = sendMailSchema.parse(params);
+  const { to, subject, body, bodyType, cc, bcc, importance, saveToSentItems, attachments, from } = sendMailSchema.parse(params);
   
   try {
+    // Sending as / on behalf of another mailbox is limited to the shared mailbox allowlist
+    if (from) {
+      assertSharedMailboxAllowed(from);
+    }
+    
     const message: Record<string, unknown> = {
       subject,
       body: {
@@ -543,6 +869,10 @@ async function sendMail(params: Record<string, unknown>) {
       importance,
     };
     
+    if (from) {
+      message.from = { emailAddress: { address: from } };
+    }
+    
     if (cc?.length) {
       message.ccRecipients = cc.map(email => ({
         emailAddress: { address: email },
@@ -555,6 +885,46 @@ async function sendMail(params: Record<string, unknown>) {
       }));
     }
     
+    const resolvedAttachments = attachments?.length ? await resolveAttachments(attachments) : [];
+    const totalAttachmentSize = resolvedAttachments.reduce((sum, a) => sum + a.content.length, 0);
+    
+    // Large attachments can't be sent inline: create a draft, upload, then send it
+    if (totalAttachmentSize > LARGE_ATTACHMENT_THRESHOLD) {
+      const draft = await graphRequest<{ id?: string }>('/me/messages', {
+        method: 'POST',
+        body: message,
+      });
+      
+      if (!draft.ok || !draft.data?.id) {
+        return handleGraphResponse(draft);
+      }
+      
+      const failed = await addAttachments(`/me/messages/${draft.data.id}`, resolvedAttachments);
+      if (failed) {
+        // Don't leave a half-built draft behind
+        await graphRequest(`/me/messages/${draft.data.id}`, { method: 'DELETE' });
+        return handleGraphResponse(failed);
+      }
+      
+      const sendResponse = await graphRequest(`/me/messages/${draft.data.id}/send`, {
+        method: 'POST',
+      });
+      
+      if (sendResponse.status === 202 || sendResponse.ok) {
+        return formatToolResponse({
+          success: true,
+          message: 'Email sent successfully',
+          attachments: resolvedAttachments.map(a => a.name),
+        });
+      }
+      
+      return handleGraphResponse(sendResponse);
+    }
+    
+    if (resolvedAttachments.length) {
+      message.attachments = resolvedAttachments.map(toFileAttachment);
+    }
+    
     const response = await graphRequest('/me/sendMail', {
       method: 'POST',
       body: {
@@ -614,7 +984,7 @@ async function moveMailMessage(params: Record<string, unknown>) {
     const response = await graphRequest(`/me/messages/${messageId}/move`, {
       method: 'POST',
       body: {
-        destinationId: destinationFolderId,
+        destinationId: await resolveMailFolderId(destinationFolderId),
       },
     });
     
@@ -624,11 +994,147 @@ async function moveMailMessage(params: Record<string, unknown>) {
   }
 }
 
+/**
+ * Build the PATCH body for message state updates (read, flag, categories, importance)
+ */
+function buildMessageUpdates(params: {
+  isRead?: boolean;
+  flagStatus?: 'notFlagged' | 'flagged' | 'complete';
+  flagStartDate?: string;
+  flagDueDate?: string;
+  flagTimeZone?: string;
+  categories?: string[];
+  importance?: 'low' | 'normal' | 'high';
+}): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  
+  if (params.isRead !== undefined) updates.isRead = params.isRead;
+  if (params.categories !== undefined) updates.categories = params.categories;
+  if (params.importance !== undefined) updates.importance = params.importance;
+  
+  if (params.flagStatus !== undefined || params.flagDueDate !== undefined || params.flagStartDate !== undefined) {
+    const timeZone = params.flagTimeZone || 'UTC';
+    // Due dates imply a flag; Graph requires startDateTime whenever dueDateTime is set
+    const flag: Record<string, unknown> = {
+      flagStatus: params.flagStatus || 'flagged',
+    };
+    
+    if (params.flagDueDate) {
+      flag.dueDateTime = { dateTime: params.flagDueDate, timeZone };
+      flag.startDateTime = { dateTime: params.flagStartDate || params.flagDueDate, timeZone };
+    } else if (params.flagStartDate) {
+      flag.startDateTime = { dateTime: params.flagStartDate, timeZone };
+    }
+    
+    updates.flag = flag;
+  }
+  
+  return updates;
+}
+
+/**
+ * Update message state: read status, flag, categories, importance
+ */
+async function updateMailMessage(params: Record<string, unknown>) {
+  const { messageId, ...fields } = updateMailMessageSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/messages/${messageId}?$select=id,subject,isRead,flag,categories,importance`, {
+      method: 'PATCH',
+      body: buildMessageUpdates(fields),
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Run one request per message through Graph batching and summarize per-item results
+ */
+async function runMessageBatch(
+  messageIds: string[],
+  buildRequest: (messageId: string) => Omit<GraphBatchRequestItem, 'id'>
+) {
+  const results = await graphBatchRequest<{ error?: { code?: string; message?: string } }>(
+    messageIds.map((messageId, index) => ({ id: String(index), ...buildRequest(messageId) }))
+  );
+  
+  const items = results.map((result, index) => ({
+    messageId: messageIds[index],
+    success: result.ok,
+    ...(!result.ok && { error: result.data?.error?.message || `Graph API error: ${result.status}` }),
+  }));
+  
+  const succeeded = items.filter(i => i.success).length;
+  
+  return formatToolResponse({
+    total: items.length,
+    succeeded,
+    failed: items.length - succeeded,
+    // Only list failures individually to keep large batches compact
+    failures: items.filter(i => !i.success),
+  });
+}
+
+/**
+ * Move multiple mail messages to a folder using Graph batching
+ */
+async function moveMailMessages(params: Record<string, unknown>) {
+  const { messageIds, destinationFolderId } = moveMailMessagesSchema.parse(params);
+  
+  try {
+    const destinationId = await resolveMailFolderId(destinationFolderId);
+    return await runMessageBatch(messageIds, messageId => ({
+      method: 'POST',
+      url: `/me/messages/${messageId}/move`,
+      body: { destinationId },
+    }));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete multiple mail messages using Graph batching
+ */
+async function deleteMailMessages(params: Record<string, unknown>) {
+  const { messageIds } = deleteMailMessagesSchema.parse(params);
+  
+  try {
+    return await runMessageBatch(messageIds, messageId => ({
+      method: 'DELETE',
+      url: `/me/messages/${messageId}`,
+    }));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Update state of multiple mail messages using Graph batching
+ */
+async function updateMailMessages(params: Record<string, unknown>) {
+  const { messageIds, ...fields } = updateMailMessagesSchema.parse(params);
+  
+  try {
+    const updates = buildMessageUpdates(fields);
+    return await runMessageBatch(messageIds, messageId => ({
+      method: 'PATCH',
+      url: `/me/messages/${messageId}`,
+      body: updates,
+    }));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 /**
  * Create an email draft (saves to Drafts folder)
  */
 async function createDraftMail(params: Record<string, unknown>) {
-  const { to, subject, body, bodyType, cc, bcc, importance } = createDraftMailSchema.parse(params);
+  const { to, subject, body, bodyType, cc, bcc, importance, attachments } = createDraftMailSchema.parse(params);
   
   try {
     const message: Record<string, unknown> = {
@@ -664,11 +1170,23 @@ async function createDraftMail(params: Record<string, unknown>) {
       }));
     }
     
-    const response = await graphRequest('/me/messages', {
+    const resolvedAttachments = attachments?.length ? await resolveAttachments(attachments) : [];
+    
+    const response = await graphRequest<{ id?: string; hasAttachments?: boolean }>('/me/messages', {
       method: 'POST',
       body: message,
     });
     
+    if (response.ok && response.data?.id && resolvedAttachments.length) {
+      const failed = await addAttachments(`/me/messages/${response.data.id}`, resolvedAttachments);
+      if (failed) {
+        // Don't leave a draft without its attachments behind
+        await graphRequest(`/me/messages/${response.data.id}`, { method: 'DELETE' });
+        return handleGraphResponse(failed);
+      }
+      response.data.hasAttachments = true;
+    }
+    
     return handleGraphResponse(response);
   } catch (error) {
     return formatErrorResponse(error);
@@ -779,26 +1297,359 @@ async function createReplyAllDraft(params: Record<string, unknown>) {
   }
 }
 
-// ============================================================================
-// Tool Definitions for MCP
-// ============================================================================
-
-export const mailToolDefinitions = [
-  {
-    name: 'list-mail-folders',
-    description: `List mail folders. Can list top-level folders or subfolders of a specific folder.
-
+/**
+ * Build the request body for forward/createForward
+ */
+function buildForwardBody(to?: string[], cc?: string[], comment?: string): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  
+  if (comment) {
+    body.comment = comment;
+  }
+  
+  if (to?.length) {
+    body.toRecipients = to.map(email => ({
+      emailAddress: { address: email },
+    }));
+  }
+  
+  // CC recipients are not a top-level forward parameter; they go on the message
+  if (cc?.length) {
+    body.message = {
+      ccRecipients: cc.map(email => ({
+        emailAddress: { address: email },
+      })),
+    };
+  }
+  
+  return body;
+}
+
+/**
+ * Forward a mail message (sends immediately)
+ */
+async function forwardMail(params: Record<string, unknown>) {
+  const { messageId, to, cc, comment } = forwardMailSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/messages/${messageId}/forward`, {
+      method: 'POST',
+      body: buildForwardBody(to, cc, comment),
+    });
+    
+    if (response.status === 202 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Message forwarded successfully' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Create a forward draft (saves to Drafts folder)
+ */
+async function createForwardDraft(params: Record<string, unknown>) {
+  const { messageId, to, cc, comment } = createForwardDraftSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/messages/${messageId}/createForward`, {
+      method: 'POST',
+      body: buildForwardBody(to, cc, comment),
+    });
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+// ============================================================================
+// Inbox Rules
+// ============================================================================
+
+const ruleConditionsSchema = z.object({
+  from: z.array(z.string()).optional(),
+  subjectContains: z.array(z.string()).optional(),
+  sentToMeOnly: z.boolean().optional(),
+  hasAttachments: z.boolean().optional(),
+});
+
+const ruleActionsSchema = z.object({
+  moveToFolder: z.string().optional(),
+  markAsRead: z.boolean().optional(),
+  categories: z.array(z.string()).optional(),
+  forwardTo: z.array(z.string()).optional(),
+  stopProcessingRules: z.boolean().optional(),
+});
+
+const listMailRulesSchema = z.object({});
+
+const createMailRuleSchema = z.object({
+  displayName: z.string().min(1),
+  conditions: ruleConditionsSchema.optional(),
+  actions: ruleActionsSchema,
+  sequence: z.number().min(1).optional(),
+  isEnabled: z.boolean().optional().default(true),
+});
+
+const updateMailRuleSchema = z.object({
+  ruleId: z.string(),
+  displayName: z.string().min(1).optional(),
+  conditions: ruleConditionsSchema.optional(),
+  actions: ruleActionsSchema.optional(),
+  sequence: z.number().min(1).optional(),
+  isEnabled: z.boolean().optional(),
+}).refine(
+  p => p.displayName !== undefined || p.conditions !== undefined || p.actions !== undefined || p.sequence !== undefined || p.isEnabled !== undefined,
+  { message: 'Provide at least one field to update (displayName, conditions, actions, sequence, isEnabled)' }
+);
+
+const deleteMailRuleSchema = z.object({
+  ruleId: z.string(),
+});
+
+const MESSAGE_RULES_ENDPOINT = '/me/mailFolders/inbox/messageRules';
+
+interface GraphMessageRule {
+  id?: string;
+  displayName?: string;
+  sequence?: number;
+  isEnabled?: boolean;
+  hasError?: boolean;
+  isReadOnly?: boolean;
+  conditions?: {
+    fromAddresses?: Array<{ emailAddress?: { address?: string } }>;
+    subjectContains?: string[];
+    sentOnlyToMe?: boolean;
+    hasAttachments?: boolean;
+    [key: string]: unknown;
+  };
+  actions?: {
+    moveToFolder?: string;
+    markAsRead?: boolean;
+    assignCategories?: string[];
+    forwardTo?: Array<{ emailAddress?: { address?: string } }>;
+    stopProcessingRules?: boolean;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Convert friendly rule conditions to Graph messageRulePredicates
+ */
+function buildRuleConditions(conditions: z.infer<typeof ruleConditionsSchema>): Record<string, unknown> {
+  const predicates: Record<string, unknown> = {};
+  
+  if (conditions.from?.length) {
+    predicates.fromAddresses = conditions.from.map(address => ({ emailAddress: { address } }));
+  }
+  if (conditions.subjectContains?.length) predicates.subjectContains = conditions.subjectContains;
+  if (conditions.sentToMeOnly !== undefined) predicates.sentOnlyToMe = conditions.sentToMeOnly;
+  if (conditions.hasAttachments !== undefined) predicates.hasAttachments = conditions.hasAttachments;
+  
+  return predicates;
+}
+
+/**
+ * Convert friendly rule actions to Graph messageRuleActions (resolves folder names)
+ */
+async function buildRuleActions(actions: z.infer<typeof ruleActionsSchema>): Promise<Record<string, unknown>> {
+  const ruleActions: Record<string, unknown> = {};
+  
+  if (actions.moveToFolder) ruleActions.moveToFolder = await resolveMailFolderId(actions.moveToFolder);
+  if (actions.markAsRead !== undefined) ruleActions.markAsRead = actions.markAsRead;
+  if (actions.categories?.length) ruleActions.assignCategories = actions.categories;
+  if (actions.forwardTo?.length) {
+    ruleActions.forwardTo = actions.forwardTo.map(address => ({ emailAddress: { address } }));
+  }
+  if (actions.stopProcessingRules !== undefined) ruleActions.stopProcessingRules = actions.stopProcessingRules;
+  
+  return ruleActions;
+}
+
+/**
+ * Compact a Graph message rule into the friendly shape used by the rule tools
+ * Conditions/actions not covered by the friendly schema are passed through unchanged.
+ */
+function toFriendlyRule(rule: GraphMessageRule): Record<string, unknown> {
+  const { fromAddresses, subjectContains, sentOnlyToMe, hasAttachments, ...otherConditions } = rule.conditions || {};
+  const { moveToFolder, markAsRead, assignCategories, forwardTo, stopProcessingRules, ...otherActions } = rule.actions || {};
+  
+  return {
+    id: rule.id,
+    displayName: rule.displayName,
+    sequence: rule.sequence,
+    isEnabled: rule.isEnabled,
+    hasError: rule.hasError || undefined,
+    isReadOnly: rule.isReadOnly || undefined,
+    conditions: {
+      from: fromAddresses?.map(r => r.emailAddress?.address),
+      subjectContains,
+      sentToMeOnly: sentOnlyToMe,
+      hasAttachments,
+      ...otherConditions,
+    },
+    actions: {
+      moveToFolder,
+      markAsRead,
+      categories: assignCategories,
+      forwardTo: forwardTo?.map(r => r.emailAddress?.address),
+      stopProcessingRules,
+      ...otherActions,
+    },
+  };
+}
+
+/**
+ * List inbox rules in execution order
+ */
+async function listMailRules(params: Record<string, unknown>) {
+  listMailRulesSchema.parse(params);
+  
+  try {
+    const response = await graphRequest<{ value?: GraphMessageRule[] }>(MESSAGE_RULES_ENDPOINT);
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    const rules = (response.data?.value || [])
+      .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))
+      .map(toFriendlyRule);
+    
+    return formatToolResponse(rules);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Create an inbox rule (appended after existing rules unless sequence is given)
+ */
+async function createMailRule(params: Record<string, unknown>) {
+  const { displayName, conditions, actions, sequence, isEnabled } = createMailRuleSchema.parse(params);
+  
+  try {
+    const ruleActions = await buildRuleActions(actions);
+    if (Object.keys(ruleActions).length === 0) {
+      throw new Error('At least one action is required (moveToFolder, markAsRead, categories, forwardTo, stopProcessingRules)');
+    }
+    
+    // Graph requires a sequence; default to running after all existing rules
+    let ruleSequence = sequence;
+    if (ruleSequence === undefined) {
+      const existing = await graphRequest<{ value?: GraphMessageRule[] }>(`${MESSAGE_RULES_ENDPOINT}?$select=sequence`);
+      // Without the existing sequences the new rule could end up ahead of every other rule
+      if (!existing.ok) {
+        return handleGraphResponse(existing);
+      }
+      const sequences = (existing.data?.value || []).map(r => r.sequence ?? 0);
+      ruleSequence = sequences.length > 0 ? Math.max(...sequences) + 1 : 1;
+    }
+    
+    const response = await graphRequest<GraphMessageRule>(MESSAGE_RULES_ENDPOINT, {
+      method: 'POST',
+      body: {
+        displayName,
+        sequence: ruleSequence,
+        isEnabled,
+        conditions: conditions ? buildRuleConditions(conditions) : {},
+        actions: ruleActions,
+      },
+    });
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    return formatToolResponse(toFriendlyRule(response.data));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Update an inbox rule (conditions/actions replace the existing ones when given)
+ */
+async function updateMailRule(params: Record<string, unknown>) {
+  const { ruleId, displayName, conditions, actions, sequence, isEnabled } = updateMailRuleSchema.parse(params);
+  
+  try {
+    const updates: Record<string, unknown> = {};
+    
+    if (displayName !== undefined) updates.displayName = displayName;
+    if (sequence !== undefined) updates.sequence = sequence;
+    if (isEnabled !== undefined) updates.isEnabled = isEnabled;
+    if (conditions !== undefined) updates.conditions = buildRuleConditions(conditions);
+    if (actions !== undefined) updates.actions = await buildRuleActions(actions);
+    
+    const response = await graphRequest<GraphMessageRule>(`${MESSAGE_RULES_ENDPOINT}/${ruleId}`, {
+      method: 'PATCH',
+      body: updates,
+    });
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    return formatToolResponse(toFriendlyRule(response.data));
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete an inbox rule
+ */
+async function deleteMailRule(params: Record<string, unknown>) {
+  const { ruleId } = deleteMailRuleSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`${MESSAGE_RULES_ENDPOINT}/${ruleId}`, {
+      method: 'DELETE',
+    });
+    
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Rule deleted' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+// ============================================================================
+// Tool Definitions for MCP
+// ============================================================================
+
+export const mailToolDefinitions = [
+  {
+    name: 'list-mail-folders',
+    description: `List mail folders. Can list top-level folders or subfolders of a specific folder.
+
 Use this to:
 - Get all top-level folders (Inbox, Sent Items, etc.)
 - Find subfolders within a folder (e.g., "Done" under Inbox)
 
 Examples:
 - List top-level folders: {} (no parameters)
-- List subfolders of Inbox: { "parentFolderId": "<inbox-folder-id>" }
+- List subfolders of Inbox: { "parentFolderId": "inbox" }
+- List subfolders of a nested folder: { "parentFolderId": "Inbox/Clients" }
 
-To find a subfolder like "Done" under Inbox:
-1. First call with no params to get Inbox folder ID
-2. Then call with parentFolderId set to the Inbox ID`,
+You usually do NOT need this tool just to get a folder ID: all folder parameters accept well-known names (inbox, archive, sentitems, deleteditems, junkemail, drafts) and display paths like "Inbox/Clients/Acme" directly.`,
     readOnly: true,
     requiredScopes: ['Mail.Read'],
     inputSchema: {
@@ -806,12 +1657,102 @@ To find a subfolder like "Done" under Inbox:
       properties: {
         parentFolderId: {
           type: 'string',
-          description: 'Parent folder ID to list subfolders. If not provided, lists top-level folders.',
+          description: 'Parent folder to list subfolders of: folder ID, well-known name (e.g., "inbox") or display path (e.g., "Inbox/Clients"). If not provided, lists top-level folders.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Other parameters are ignored when set.',
         },
       },
     },
     handler: listMailFolders,
   },
+  {
+    name: 'create-mail-folder',
+    description: `Create a mail folder. Creates a top-level folder, or a subfolder when parentFolderId is given.
+
+Examples:
+- Top-level folder: { "displayName": "Project X" }
+- Subfolder of Inbox: { "displayName": "Acme", "parentFolderId": "Inbox/Clients" }
+
+Returns the new folder including its ID, which can be used directly with move-mail-message.`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        displayName: {
+          type: 'string',
+          description: 'Name of the new folder',
+        },
+        parentFolderId: {
+          type: 'string',
+          description: 'Parent folder: folder ID, well-known name (e.g., "inbox") or display path (e.g., "Inbox/Clients"). If not provided, creates a top-level folder.',
+        },
+      },
+      required: ['displayName'],
+    },
+    handler: createMailFolder,
+  },
+  {
+    name: 'rename-mail-folder',
+    description: 'Rename a mail folder. Well-known folders (Inbox, Sent Items, etc.) cannot be renamed.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        folderId: {
+          type: 'string',
+          description: 'The folder to rename: folder ID or display path (e.g., "Inbox/Old Name")',
+        },
+        displayName: {
+          type: 'string',
+          description: 'New folder name',
+        },
+      },
+      required: ['folderId', 'displayName'],
+    },
+    handler: renameMailFolder,
+  },
+  {
+    name: 'move-mail-folder',
+    description: 'Move a mail folder (including its messages and subfolders) under another folder.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        folderId: {
+          type: 'string',
+          description: 'The folder to move: folder ID or display path (e.g., "Inbox/Acme")',
+        },
+        destinationFolderId: {
+          type: 'string',
+          description: 'New parent folder: folder ID, well-known name (e.g., "archive") or display path',
+        },
+      },
+      required: ['folderId', 'destinationFolderId'],
+    },
+    handler: moveMailFolder,
+  },
+  {
+    name: 'delete-mail-folder',
+    description: 'Delete a mail folder including all its messages and subfolders (moves to Deleted Items). Confirm with the user before deleting non-empty folders.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        folderId: {
+          type: 'string',
+          description: 'The folder to delete: folder ID or display path (e.g., "Inbox/Old Project")',
+        },
+      },
+      required: ['folderId'],
+    },
+    handler: deleteMailFolder,
+  },
   {
     name: 'list-mail-messages',
     description: `List and filter mail messages from a folder with structured filters. Defaults to Inbox.
@@ -827,7 +1768,9 @@ Examples:
 - Unread emails: { "isRead": false }
 - From sender: { "senderEmail": "john@company.com" }
 - Last week: { "receivedAfter": "2026-01-13T00:00:00Z" }
-- Important with attachments: { "importance": "high", "hasAttachments": true }`,
+- Important with attachments: { "importance": "high", "hasAttachments": true }
+
+Pagination: if the response contains nextCursor, call again with { "cursor": "<nextCursor>" } to get the next page.`,
     readOnly: true,
     requiredScopes: ['Mail.Read'],
     inputSchema: {
@@ -835,7 +1778,7 @@ Examples:
       properties: {
         folderId: {
           type: 'string',
-          description: 'Mail folder ID (default: Inbox). Use list-mail-folders to get folder IDs.',
+          description: 'Mail folder (default: Inbox). Accepts folder ID, well-known name (inbox, archive, sentitems, deleteditems, junkemail, drafts) or display path like "Inbox/Clients/Acme".',
         },
         senderEmail: {
           type: 'string',
@@ -868,12 +1811,16 @@ Examples:
         },
         skip: {
           type: 'number',
-          description: 'Number of messages to skip for pagination',
+          description: 'Number of messages to skip. Prefer cursor for paging through results.',
         },
         orderBy: {
           type: 'string',
           description: 'Sort order (default: receivedDateTime desc)',
         },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Other parameters are ignored when set.',
+        },
       },
     },
     handler: listMailMessages,
@@ -896,7 +1843,9 @@ Examples:
 - By recipients: {"to": "alice@company.com", "subject": "budget"}
 - Between two people: {"query": "project", "participants": "alice@x.com, bob@x.com"}
 - By attachment: {"attachment": "report.pdf"}
-- Folder search: {"folderId": "xxx", "from": "alice@company.com"}`,
+- Folder search: {"folderId": "Inbox/Clients", "from": "alice@company.com"}
+
+Pagination: if the response contains nextCursor, call again with {"cursor": "<nextCursor>"} to get the next page.`,
     readOnly: true,
     requiredScopes: ['Mail.Read'],
     inputSchema: {
@@ -953,12 +1902,16 @@ Examples:
         },
         folderId: {
           type: 'string',
-          description: 'Folder ID to search within. When specified, only from, subject, hasAttachments, importance, and received filters are supported (full-text search not available on folder endpoints).',
+          description: 'Folder to search within: folder ID, well-known name (e.g., "inbox") or display path (e.g., "Inbox/Clients"). When specified, only from, subject, hasAttachments, importance, and received filters are supported (full-text search not available on folder endpoints).',
         },
         top: {
           type: 'number',
           description: 'Maximum number of results (default: 25, max: 1000)',
         },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Other parameters are ignored when set.',
+        },
       },
     },
     handler: searchMail,
@@ -988,9 +1941,94 @@ Use list-mail-messages or search-mail first to find message IDs and preview cont
     },
     handler: getMailMessage,
   },
+  {
+    name: 'get-mail-thread',
+    description: `Get a whole email conversation (thread) in chronological order, oldest first.
+
+Each message includes only its own new content (quoted replies and forwarded history are removed) as plain text, so the thread reads cleanly without duplication. Messages from all folders are included, so your own replies from Sent Items appear in the thread. Drafts are excluded. Long threads return the newest maxMessages messages with truncated: true.
+
+Use this instead of get-mail-message with includeConversationHistory when you need to understand a back-and-forth discussion.
+
+Examples:
+- From a message: { "messageId": "xxx" }
+- By conversation: { "conversationId": "yyy" }`,
+    readOnly: true,
+    requiredScopes: ['Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'ID of any message in the thread',
+        },
+        conversationId: {
+          type: 'string',
+          description: 'Conversation ID (from get-mail-message). Use instead of messageId if already known.',
+        },
+        maxMessages: {
+          type: 'number',
+          description: 'Maximum number of messages to return (1-100, default: 50)',
+        },
+      },
+    },
+    handler: getMailThread,
+  },
+  {
+    name: 'list-mail-attachments',
+    description: `List attachments of a mail message. Returns metadata only: id, name, contentType, size (bytes), isInline.
+
+Use get-mail-message first to check hasAttachments, then this tool to see what is attached, then get-mail-attachment to read a specific attachment.
+
+Inline attachments (isInline=true) are usually embedded images from signatures - skip them unless relevant.`,
+    readOnly: true,
+    requiredScopes: ['Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message',
+        },
+      },
+      required: ['messageId'],
+    },
+    handler: listMailAttachments,
+  },
+  {
+    name: 'get-mail-attachment',
+    description: `Get a mail attachment and extract its content as plain text.
+
+Text-like attachments (txt, csv, html, json, xml, ics, eml) and attached emails/events are returned as plain text in the "text" field, capped at maxChars.
+Binary attachments (PDF, Office documents, images, archives) and text attachments over 5 MB return metadata only with extractable=false - their content cannot be read with this tool.
+
+If _truncated is present, the attachment was longer than maxChars.`,
+    readOnly: true,
+    requiredScopes: ['Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'The ID of the attachment. Use list-mail-attachments to get attachment IDs.',
+        },
+        maxChars: {
+          type: 'number',
+          description: 'Maximum characters of extracted text to return (100-100000, default: 20000)',
+        },
+      },
+      required: ['messageId', 'attachmentId'],
+    },
+    handler: getMailAttachment,
+  },
   {
     name: 'send-mail',
-    description: 'Send an email message immediately.',
+    description: `Send an email message immediately.
+
+To send as / on behalf of a shared mailbox (e.g. support@), set from to that address. You need Send As or Send on Behalf permission on it, and it must be one of the shared mailboxes configured on the server.`,
     readOnly: false,
     requiredScopes: ['Mail.Send'],
     inputSchema: {
@@ -1036,7 +2074,25 @@ HTML formatting (bodyType="html"):
         },
         saveToSentItems: {
           type: 'boolean',
-          description: 'Save to Sent Items folder (default: true)',
+          description: 'Save to Sent Items folder (default: true). Always true when attachments exceed 3 MB in total.',
+        },
+        attachments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'File name including extension (e.g., "report.pdf")' },
+              contentType: { type: 'string', description: 'MIME type (e.g., "application/pdf"). Default: application/octet-stream' },
+              contentBytes: { type: 'string', description: 'File content, base64-encoded' },
+              messageId: { type: 'string', description: 'To re-attach an existing attachment: ID of the message that has it' },
+              attachmentId: { type: 'string', description: 'To re-attach an existing attachment: its ID (from list-mail-attachments)' },
+            },
+          },
+          description: 'File attachments. Each item is either {name, contentType, contentBytes} for new files, or {messageId, attachmentId} to forward an existing attachment. Large files (over 3 MB) are uploaded automatically.',
+        },
+        from: {
+          type: 'string',
+          description: 'Send as / on behalf of this shared mailbox address (default: you)',
         },
       },
       required: ['to', 'subject', 'body'],
@@ -1060,6 +2116,121 @@ HTML formatting (bodyType="html"):
     },
     handler: deleteMailMessage,
   },
+  {
+    name: 'update-mail-message',
+    description: `Update the state of a mail message: mark read/unread, flag for follow-up, categorize, set importance.
+
+Only the fields you pass are changed.
+
+Notes:
+- categories REPLACES the message's existing categories. Category names should match the user's Outlook categories (e.g., "Red category", "Follow up")
+- flagDueDate/flagStartDate imply flagStatus="flagged" unless flagStatus is given
+- Use flagStatus="complete" to mark a follow-up as done, "notFlagged" to clear it
+
+Examples:
+- Mark as read: { "messageId": "xxx", "isRead": true }
+- Flag with due date: { "messageId": "xxx", "flagDueDate": "2026-02-01T17:00:00", "flagTimeZone": "Europe/Berlin" }
+- Categorize: { "messageId": "xxx", "categories": ["Newsletter"] }`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message to update',
+        },
+        isRead: {
+          type: 'boolean',
+          description: 'true = mark as read, false = mark as unread',
+        },
+        flagStatus: {
+          type: 'string',
+          enum: ['notFlagged', 'flagged', 'complete'],
+          description: 'Follow-up flag status',
+        },
+        flagStartDate: {
+          type: 'string',
+          description: 'Flag start date/time (ISO 8601, without offset). Example: "2026-01-27T09:00:00"',
+        },
+        flagDueDate: {
+          type: 'string',
+          description: 'Flag due date/time (ISO 8601, without offset). Example: "2026-01-30T17:00:00"',
+        },
+        flagTimeZone: {
+          type: 'string',
+          description: 'Time zone for flag dates (default: UTC). Example: "Europe/Berlin"',
+        },
+        categories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Category names (replaces existing categories). Pass [] to clear.',
+        },
+        importance: {
+          type: 'string',
+          enum: ['low', 'normal', 'high'],
+          description: 'Message importance',
+        },
+      },
+      required: ['messageId'],
+    },
+    handler: updateMailMessage,
+  },
+  {
+    name: 'update-mail-messages',
+    description: `Update the state of MANY mail messages in one call (mark read/unread, flag, categorize, set importance). Same fields as update-mail-message.
+
+Prefer this over repeated update-mail-message calls when triaging several messages.
+
+Returns counts and a list of failures with their messageId and error.
+
+Example: { "messageIds": ["id1", "id2", "id3"], "isRead": true }`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the messages to update (1-200)',
+        },
+        isRead: {
+          type: 'boolean',
+          description: 'true = mark as read, false = mark as unread',
+        },
+        flagStatus: {
+          type: 'string',
+          enum: ['notFlagged', 'flagged', 'complete'],
+          description: 'Follow-up flag status',
+        },
+        flagStartDate: {
+          type: 'string',
+          description: 'Flag start date/time (ISO 8601, without offset)',
+        },
+        flagDueDate: {
+          type: 'string',
+          description: 'Flag due date/time (ISO 8601, without offset)',
+        },
+        flagTimeZone: {
+          type: 'string',
+          description: 'Time zone for flag dates (default: UTC)',
+        },
+        categories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Category names (replaces existing categories). Pass [] to clear.',
+        },
+        importance: {
+          type: 'string',
+          enum: ['low', 'normal', 'high'],
+          description: 'Message importance',
+        },
+      },
+      required: ['messageIds'],
+    },
+    handler: updateMailMessages,
+  },
   {
     name: 'move-mail-message',
     description: 'Move a mail message to a different folder',
@@ -1074,13 +2245,57 @@ HTML formatting (bodyType="html"):
         },
         destinationFolderId: {
           type: 'string',
-          description: 'The ID of the destination folder',
+          description: 'Destination folder: folder ID, well-known name (e.g., "archive") or display path (e.g., "Inbox/Clients/Acme")',
         },
       },
       required: ['messageId', 'destinationFolderId'],
     },
     handler: moveMailMessage,
   },
+  {
+    name: 'delete-mail-messages',
+    description: `Delete MANY mail messages in one call (moves them to Deleted Items).
+
+Prefer this over repeated delete-mail-message calls. Returns counts and a list of failures with their messageId and error.`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the messages to delete (1-200)',
+        },
+      },
+      required: ['messageIds'],
+    },
+    handler: deleteMailMessages,
+  },
+  {
+    name: 'move-mail-messages',
+    description: `Move MANY mail messages to a folder in one call.
+
+Prefer this over repeated move-mail-message calls. Returns counts and a list of failures with their messageId and error.`,
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the messages to move (1-200)',
+        },
+        destinationFolderId: {
+          type: 'string',
+          description: 'Destination folder: folder ID, well-known name (e.g., "archive") or display path (e.g., "Inbox/Clients/Acme")',
+        },
+      },
+      required: ['messageIds', 'destinationFolderId'],
+    },
+    handler: moveMailMessages,
+  },
   {
     name: 'create-draft-mail',
     description: 'Create an email draft and save it to the Drafts folder. Returns the draft message ID which can be used to send or update it later.',
@@ -1127,6 +2342,20 @@ HTML formatting (bodyType="html"):
           enum: ['low', 'normal', 'high'],
           description: 'Email importance (default: normal)',
         },
+        attachments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'File name including extension (e.g., "report.pdf")' },
+              contentType: { type: 'string', description: 'MIME type (e.g., "application/pdf"). Default: application/octet-stream' },
+              contentBytes: { type: 'string', description: 'File content, base64-encoded' },
+              messageId: { type: 'string', description: 'To re-attach an existing attachment: ID of the message that has it' },
+              attachmentId: { type: 'string', description: 'To re-attach an existing attachment: its ID (from list-mail-attachments)' },
+            },
+          },
+          description: 'File attachments. Each item is either {name, contentType, contentBytes} for new files, or {messageId, attachmentId} to forward an existing attachment. Large files (over 3 MB) are uploaded automatically.',
+        },
       },
     },
     handler: createDraftMail,
@@ -1215,4 +2444,181 @@ HTML formatting (bodyType="html"):
     },
     handler: createReplyAllDraft,
   },
+  {
+    name: 'forward-mail',
+    description: 'Forward a mail message to new recipients. Sends immediately, including the original message and its attachments.',
+    readOnly: false,
+    requiredScopes: ['Mail.Send'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message to forward',
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses',
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'CC recipients',
+        },
+        comment: {
+          type: 'string',
+          description: 'Optional note shown above the forwarded message',
+        },
+      },
+      required: ['messageId', 'to'],
+    },
+    handler: forwardMail,
+  },
+  {
+    name: 'create-forward-draft',
+    description: 'Create a forward draft of a mail message. Saves the draft to the Drafts folder for review before sending.',
+    readOnly: false,
+    requiredScopes: ['Mail.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message to forward',
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses (optional for drafts)',
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'CC recipients',
+        },
+        comment: {
+          type: 'string',
+          description: 'Optional note shown above the forwarded message',
+        },
+      },
+      required: ['messageId'],
+    },
+    handler: createForwardDraft,
+  },
+  {
+    name: 'list-mail-rules',
+    description: `List inbox rules in the order they run.
+
+Returns: Array of {id, displayName, sequence, isEnabled, conditions, actions}.
+conditions/actions use the same friendly names as create-mail-rule; moveToFolder is a folder ID.`,
+    readOnly: true,
+    requiredScopes: ['MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+    handler: listMailRules,
+  },
+  {
+    name: 'create-mail-rule',
+    description: `Create an inbox rule that is applied to incoming mail from now on.
+
+Use this to make one-off triage permanent (e.g. "always file newsletters from X").
+All given conditions must match; with no conditions the rule applies to every message.
+
+Examples:
+- File a sender: { "displayName": "Acme to folder", "conditions": { "from": ["news@acme.com"] }, "actions": { "moveToFolder": "Inbox/Clients/Acme", "markAsRead": true } }
+- Tag invoices: { "displayName": "Invoices", "conditions": { "subjectContains": ["invoice", "Rechnung"], "hasAttachments": true }, "actions": { "categories": ["Finance"] } }
+- Forward direct mail: { "displayName": "Forward to assistant", "conditions": { "sentToMeOnly": true }, "actions": { "forwardTo": ["assistant@company.com"] } }
+
+Confirm with the user before creating rules that forward mail.`,
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite', 'Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        displayName: {
+          type: 'string',
+          description: 'Rule name',
+        },
+        conditions: {
+          type: 'object',
+          description: 'When the rule applies (all must match): from (array of sender emails), subjectContains (array of strings, any matches), sentToMeOnly (boolean), hasAttachments (boolean)',
+        },
+        actions: {
+          type: 'object',
+          description: 'What the rule does: moveToFolder (folder ID, well-known name or display path like "Inbox/Clients"), markAsRead (boolean), categories (array of category names), forwardTo (array of emails), stopProcessingRules (boolean)',
+        },
+        sequence: {
+          type: 'number',
+          description: 'Position in the rule order (1 = first). Default: after all existing rules.',
+        },
+        isEnabled: {
+          type: 'boolean',
+          description: 'Whether the rule is active (default: true)',
+        },
+      },
+      required: ['displayName', 'actions'],
+    },
+    handler: createMailRule,
+  },
+  {
+    name: 'update-mail-rule',
+    description: `Update an inbox rule. Only provided fields are changed; conditions or actions, when given, replace the rule's existing conditions or actions.
+
+Examples:
+- Disable: { "ruleId": "xxx", "isEnabled": false }
+- Change target folder: { "ruleId": "xxx", "actions": { "moveToFolder": "Archive/Acme" } }`,
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite', 'Mail.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ruleId: {
+          type: 'string',
+          description: 'The rule ID (from list-mail-rules)',
+        },
+        displayName: {
+          type: 'string',
+          description: 'New rule name',
+        },
+        conditions: {
+          type: 'object',
+          description: 'Replacement conditions: from, subjectContains, sentToMeOnly, hasAttachments (see create-mail-rule)',
+        },
+        actions: {
+          type: 'object',
+          description: 'Replacement actions: moveToFolder, markAsRead, categories, forwardTo, stopProcessingRules (see create-mail-rule)',
+        },
+        sequence: {
+          type: 'number',
+          description: 'New position in the rule order (1 = first)',
+        },
+        isEnabled: {
+          type: 'boolean',
+          description: 'Enable or disable the rule',
+        },
+      },
+      required: ['ruleId'],
+    },
+    handler: updateMailRule,
+  },
+  {
+    name: 'delete-mail-rule',
+    description: 'Delete an inbox rule. Messages already processed by the rule are not affected.',
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ruleId: {
+          type: 'string',
+          description: 'The rule ID (from list-mail-rules)',
+        },
+      },
+      required: ['ruleId'],
+    },
+    handler: deleteMailRule,
+  },
 ];
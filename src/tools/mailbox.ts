@@ -0,0 +1,239 @@
+/**
+ * Mailbox settings tools for Microsoft Graph API
+ */
+
+import { z } from 'zod';
+import { graphRequest, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { getDefaultTimeZone } from '../graph/mailbox-settings.js';
+import logger from '../utils/logger.js';
+import { serializeResponse } from '../utils/tonl.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const getAutomaticRepliesSchema = z.object({});
+
+const setAutomaticRepliesSchema = z.object({
+  status: z.enum(['disabled', 'alwaysEnabled', 'scheduled']),
+  internalMessage: z.string().optional(),
+  externalMessage: z.string().optional(),
+  externalAudience: z.enum(['none', 'contactsOnly', 'all']).optional(),
+  scheduledStart: z.string().optional(),
+  scheduledEnd: z.string().optional(),
+  timeZone: z.string().optional(),
+  blockCalendar: z.boolean().optional().default(false),
+  calendarSubject: z.string().optional().default('Out of office'),
+}).refine(
+  p => p.status !== 'scheduled' || (p.scheduledStart !== undefined && p.scheduledEnd !== undefined),
+  { message: 'scheduledStart and scheduledEnd are required when status is "scheduled"' }
+).refine(
+  p => !p.blockCalendar || p.status === 'scheduled',
+  { message: 'blockCalendar requires status "scheduled" (the event needs a start and end)' }
+);
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+interface AutomaticRepliesSetting {
+  status?: string;
+  externalAudience?: string;
+  scheduledStartDateTime?: { dateTime?: string; timeZone?: string };
+  scheduledEndDateTime?: { dateTime?: string; timeZone?: string };
+  internalReplyMessage?: string;
+  externalReplyMessage?: string;
+}
+
+/**
+ * Get the current automatic replies (out-of-office) configuration
+ */
+async function getAutomaticReplies(params: Record<string, unknown>) {
+  getAutomaticRepliesSchema.parse(params);
+  
+  try {
+    const response = await graphRequest<AutomaticRepliesSetting>('/me/mailboxSettings/automaticRepliesSetting');
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    const setting = response.data;
+    const result: Record<string, unknown> = {
+      status: setting.status,
+      externalAudience: setting.externalAudience,
+      internalMessage: setting.internalReplyMessage || undefined,
+      externalMessage: setting.externalReplyMessage || undefined,
+    };
+    
+    // Schedule is only meaningful when replies are scheduled
+    if (setting.status === 'scheduled') {
+      result.scheduledStart = setting.scheduledStartDateTime;
+      result.scheduledEnd = setting.scheduledEndDateTime;
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(result),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Enable, schedule or disable automatic replies
+ * Optionally blocks the scheduled period in the calendar as "Out of office".
+ */
+async function setAutomaticReplies(params: Record<string, unknown>) {
+  const {
+    status, internalMessage, externalMessage, externalAudience,
+    scheduledStart, scheduledEnd, timeZone, blockCalendar, calendarSubject,
+  } = setAutomaticRepliesSchema.parse(params);
+  
+  try {
+    const setting: Record<string, unknown> = { status };
+    
+    if (internalMessage !== undefined) setting.internalReplyMessage = internalMessage;
+    if (externalMessage !== undefined) setting.externalReplyMessage = externalMessage;
+    if (externalAudience !== undefined) setting.externalAudience = externalAudience;
+    
+    const resolvedTimeZone = status === 'scheduled' ? timeZone || await getDefaultTimeZone() : undefined;
+    if (status === 'scheduled') {
+      setting.scheduledStartDateTime = { dateTime: scheduledStart, timeZone: resolvedTimeZone };
+      setting.scheduledEndDateTime = { dateTime: scheduledEnd, timeZone: resolvedTimeZone };
+    }
+    
+    // automaticRepliesSetting is updated through the parent mailboxSettings resource
+    const response = await graphRequest('/me/mailboxSettings', {
+      method: 'PATCH',
+      body: { automaticRepliesSetting: setting },
+    });
+    
+    if (!response.ok) {
+      return handleGraphResponse(response);
+    }
+    
+    const result: Record<string, unknown> = {
+      success: true,
+      message: status === 'disabled'
+        ? 'Automatic replies disabled'
+        : status === 'scheduled'
+          ? `Automatic replies scheduled from ${scheduledStart} to ${scheduledEnd} (${resolvedTimeZone})`
+          : 'Automatic replies enabled',
+    };
+    
+    if (blockCalendar) {
+      // Replies are already set, so a failed event is reported rather than failing the call
+      const eventResponse = await graphRequest<{ id?: string }>('/me/events', {
+        method: 'POST',
+        body: {
+          subject: calendarSubject,
+          start: { dateTime: scheduledStart, timeZone: resolvedTimeZone },
+          end: { dateTime: scheduledEnd, timeZone: resolvedTimeZone },
+          showAs: 'oof',
+          isReminderOn: false,
+          responseRequested: false,
+        },
+      });
+      
+      if (eventResponse.ok) {
+        result.calendarEventId = eventResponse.data?.id;
+      } else {
+        logger.warn('Failed to create out-of-office calendar event', { status: eventResponse.status });
+        result.calendarWarning = `Automatic replies were set, but the calendar event could not be created (status ${eventResponse.status})`;
+      }
+    }
+    
+    return {
+      content: [{
+        type: 'text' as const,
+        text: serializeResponse(result),
+      }],
+    };
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+// ============================================================================
+// Tool Definitions for MCP
+// ============================================================================
+
+export const mailboxToolDefinitions = [
+  {
+    name: 'get-automatic-replies',
+    description: `Get the current automatic replies (out-of-office) settings.
+
+Returns: {status, externalAudience, internalMessage, externalMessage, scheduledStart?, scheduledEnd?}.
+status is "disabled", "alwaysEnabled" or "scheduled"; the schedule is only included when scheduled.`,
+    readOnly: true,
+    requiredScopes: ['MailboxSettings.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+    handler: getAutomaticReplies,
+  },
+  {
+    name: 'set-automatic-replies',
+    description: `Turn automatic replies (out-of-office) on, off, or schedule them for a period.
+
+Examples:
+- Disable: { "status": "disabled" }
+- On now: { "status": "alwaysEnabled", "internalMessage": "I'm out today, back tomorrow." }
+- Vacation: { "status": "scheduled", "scheduledStart": "2026-08-03T00:00:00", "scheduledEnd": "2026-08-17T00:00:00", "internalMessage": "On vacation until Aug 17.", "externalMessage": "I'm away until Aug 17. For urgent matters contact support@contoso.com.", "externalAudience": "all", "blockCalendar": true }
+
+Messages may be plain text or HTML. Fields you omit keep their current values.
+With blockCalendar, an "Out of office" event (shown as away) is added for the scheduled period.`,
+    readOnly: false,
+    requiredScopes: ['MailboxSettings.ReadWrite', 'Calendars.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['disabled', 'alwaysEnabled', 'scheduled'],
+          description: 'disabled, alwaysEnabled (until turned off), or scheduled (between scheduledStart and scheduledEnd)',
+        },
+        internalMessage: {
+          type: 'string',
+          description: 'Reply sent to people in your organization',
+        },
+        externalMessage: {
+          type: 'string',
+          description: 'Reply sent to people outside your organization',
+        },
+        externalAudience: {
+          type: 'string',
+          enum: ['none', 'contactsOnly', 'all'],
+          description: 'Who outside your organization gets the external reply: none, contactsOnly, or all',
+        },
+        scheduledStart: {
+          type: 'string',
+          description: 'Start in ISO format (e.g. "2026-08-03T00:00:00"). Required when status is scheduled.',
+        },
+        scheduledEnd: {
+          type: 'string',
+          description: 'End in ISO format (e.g. "2026-08-17T00:00:00"). Required when status is scheduled.',
+        },
+        timeZone: {
+          type: 'string',
+          description: 'Time zone for the schedule (default: your mailbox time zone)',
+        },
+        blockCalendar: {
+          type: 'boolean',
+          description: 'Also add an out-of-office event for the scheduled period (default: false)',
+        },
+        calendarSubject: {
+          type: 'string',
+          description: 'Subject of the calendar event (default: "Out of office")',
+        },
+      },
+      required: ['status'],
+    },
+    handler: setAutomaticReplies,
+  },
+];
@@ -3,7 +3,7 @@
  */
 
 import { z } from 'zod';
-import { graphRequest, handleGraphResponse, formatErrorResponse } from '../graph/client.js';
+import { graphRequest, decodeCursor, handleGraphResponse, formatErrorResponse, formatToolResponse, type GraphResponse } from '../graph/client.js';
 import { serializeResponse } from '../utils/tonl.js';
 
 // ============================================================================
@@ -15,6 +15,44 @@ const lookupContactEmailSchema = z.object({
   top: z.number().min(1).max(20).optional().default(10),
 });
 
+const listContactsSchema = z.object({
+  folder: z.string().optional(),
+  top: z.number().min(1).max(100).optional().default(25),
+  cursor: z.string().optional(),
+});
+
+const getContactSchema = z.object({
+  contactId: z.string(),
+});
+
+const contactFieldsSchema = z.object({
+  givenName: z.string().optional(),
+  surname: z.string().optional(),
+  displayName: z.string().optional(),
+  emails: z.array(z.string()).optional(),
+  businessPhones: z.array(z.string()).optional(),
+  mobilePhone: z.string().optional(),
+  companyName: z.string().optional(),
+  jobTitle: z.string().optional(),
+  department: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const createContactSchema = contactFieldsSchema.extend({
+  folder: z.string().optional(),
+}).refine(
+  c => c.givenName || c.surname || c.displayName || c.emails?.length,
+  { message: 'Provide at least a name or an email address' }
+);
+
+const updateContactSchema = contactFieldsSchema.extend({
+  contactId: z.string(),
+});
+
+const deleteContactSchema = z.object({
+  contactId: z.string(),
+});
+
 // ============================================================================
 // Tool Implementations
 // ============================================================================
@@ -77,6 +115,189 @@ async function lookupContactEmail(params: Record<string, unknown>) {
   }
 }
 
+/** Contact fields returned by the contact tools */
+const CONTACT_SELECT = 'id,displayName,givenName,surname,emailAddresses,businessPhones,mobilePhone,companyName,jobTitle,department,personalNotes,parentFolderId';
+
+/**
+ * Heuristic: Graph contact folder IDs are long base64-like strings without spaces or slashes
+ */
+function looksLikeContactFolderId(value: string): boolean {
+  return value.length >= 40 && /^[A-Za-z0-9+=_-]+$/.test(value);
+}
+
+interface ContactFolderListResponse {
+  value?: Array<{ id: string; displayName?: string }>;
+  '@odata.nextLink'?: string;
+}
+
+/**
+ * Resolve a contact folder by ID or display name to a /me/contactFolders/{id} path segment
+ * Folder IDs are used as-is; names are matched against every page of top-level folders.
+ */
+async function resolveContactFolderId(folder: string): Promise<string> {
+  if (looksLikeContactFolderId(folder)) {
+    return folder;
+  }
+  
+  let url: string | undefined = '/me/contactFolders?$top=100&$select=id,displayName';
+  const folders: Array<{ id: string; displayName?: string }> = [];
+  
+  while (url) {
+    const response: GraphResponse<ContactFolderListResponse> = await graphRequest<ContactFolderListResponse>(url);
+    
+    if (!response.ok) {
+      throw new Error(`Failed to list contact folders: ${response.status}`);
+    }
+    
+    folders.push(...(response.data?.value || []));
+    url = response.data?.['@odata.nextLink'];
+  }
+  
+  const match = folders.find(f => f.id === folder)
+    || folders.find(f => f.displayName?.toLowerCase() === folder.trim().toLowerCase());
+  
+  if (!match) {
+    const available = folders.map(f => f.displayName).filter(Boolean).join(', ') || 'none';
+    throw new Error(`Contact folder "${folder}" not found. Available folders: ${available}`);
+  }
+  
+  return match.id;
+}
+
+/**
+ * Convert friendly contact fields to a Graph contact body
+ */
+function buildContactBody(fields: z.infer<typeof contactFieldsSchema>): Record<string, unknown> {
+  const contact: Record<string, unknown> = {};
+  
+  if (fields.givenName !== undefined) contact.givenName = fields.givenName;
+  if (fields.surname !== undefined) contact.surname = fields.surname;
+  if (fields.displayName !== undefined) contact.displayName = fields.displayName;
+  if (fields.emails !== undefined) {
+    contact.emailAddresses = fields.emails.map(address => ({ address, name: fields.displayName || address }));
+  }
+  if (fields.businessPhones !== undefined) contact.businessPhones = fields.businessPhones;
+  if (fields.mobilePhone !== undefined) contact.mobilePhone = fields.mobilePhone;
+  if (fields.companyName !== undefined) contact.companyName = fields.companyName;
+  if (fields.jobTitle !== undefined) contact.jobTitle = fields.jobTitle;
+  if (fields.department !== undefined) contact.department = fields.department;
+  if (fields.notes !== undefined) contact.personalNotes = fields.notes;
+  
+  return contact;
+}
+
+/**
+ * List contacts (default contacts folder or a named contact folder)
+ */
+async function listContacts(params: Record<string, unknown>) {
+  const { folder, top, cursor } = listContactsSchema.parse(params);
+  
+  try {
+    let url: string;
+    if (cursor) {
+      url = decodeCursor(cursor);
+    } else {
+      const queryParams = new URLSearchParams();
+      queryParams.set('$top', String(top));
+      queryParams.set('$select', CONTACT_SELECT);
+      queryParams.set('$orderby', 'displayName');
+      
+      const endpoint = folder
+        ? `/me/contactFolders/${await resolveContactFolderId(folder)}/contacts`
+        : '/me/contacts';
+      url = `${endpoint}?${queryParams.toString()}`;
+    }
+    
+    const response = await graphRequest<{ value: unknown[] }>(url);
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Get a single contact
+ */
+async function getContact(params: Record<string, unknown>) {
+  const { contactId } = getContactSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/contacts/${contactId}?$select=${CONTACT_SELECT}`);
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Create a contact (in the default contacts folder or a named contact folder)
+ */
+async function createContact(params: Record<string, unknown>) {
+  const { folder, ...fields } = createContactSchema.parse(params);
+  
+  try {
+    const endpoint = folder
+      ? `/me/contactFolders/${await resolveContactFolderId(folder)}/contacts`
+      : '/me/contacts';
+    
+    const response = await graphRequest(endpoint, {
+      method: 'POST',
+      body: buildContactBody(fields),
+    });
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Update a contact (only provided fields are changed)
+ */
+async function updateContact(params: Record<string, unknown>) {
+  const { contactId, ...fields } = updateContactSchema.parse(params);
+  
+  try {
+    const updates = buildContactBody(fields);
+    if (Object.keys(updates).length === 0) {
+      return formatToolResponse({ success: true, message: 'Nothing to update' });
+    }
+    
+    const response = await graphRequest(`/me/contacts/${contactId}`, {
+      method: 'PATCH',
+      body: updates,
+    });
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
+/**
+ * Delete a contact (moves it to Deleted Items)
+ */
+async function deleteContact(params: Record<string, unknown>) {
+  const { contactId } = deleteContactSchema.parse(params);
+  
+  try {
+    const response = await graphRequest(`/me/contacts/${contactId}`, {
+      method: 'DELETE',
+    });
+    
+    if (response.status === 204 || response.ok) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: serializeResponse({ success: true, message: 'Contact deleted' }),
+        }],
+      };
+    }
+    
+    return handleGraphResponse(response);
+  } catch (error) {
+    return formatErrorResponse(error);
+  }
+}
+
 // ============================================================================
 // Tool Definitions for MCP
 // ============================================================================
@@ -107,4 +328,125 @@ Returns: Array of {email, displayName, relevanceScore}.`,
     },
     handler: lookupContactEmail,
   },
+  {
+    name: 'list-contacts',
+    description: `List saved Outlook contacts, sorted by name.
+
+Use lookup-contact-email to find someone's address by name; use this to browse or manage your saved contacts.
+
+Examples:
+- Default contacts: {}
+- A contact folder: { "folder": "Vendors" }
+
+Pagination: if the response contains nextCursor, call again with { "cursor": "<nextCursor>" } to get the next page.`,
+    readOnly: true,
+    requiredScopes: ['Contacts.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Contact folder name or ID (default: your main contacts folder)',
+        },
+        top: {
+          type: 'number',
+          description: 'Number of contacts to return (1-100, default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor: pass nextCursor from a previous response to get the next page. Other parameters are ignored when set.',
+        },
+      },
+    },
+    handler: listContacts,
+  },
+  {
+    name: 'get-contact',
+    description: 'Get a saved contact by ID, including emails, phones, company, job title and notes.',
+    readOnly: true,
+    requiredScopes: ['Contacts.Read'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        contactId: {
+          type: 'string',
+          description: 'The contact ID (from list-contacts)',
+        },
+      },
+      required: ['contactId'],
+    },
+    handler: getContact,
+  },
+  {
+    name: 'create-contact',
+    description: `Save a new Outlook contact, e.g. a vendor's details after an email exchange.
+
+Examples:
+- { "givenName": "Jane", "surname": "Doe", "emails": ["jane@acme.com"], "companyName": "Acme", "jobTitle": "Account Manager" }
+- In a folder: { "displayName": "Acme Support", "emails": ["support@acme.com"], "businessPhones": ["+1 555 0100"], "folder": "Vendors" }
+
+Check list-contacts first to avoid creating duplicates.`,
+    readOnly: false,
+    requiredScopes: ['Contacts.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        givenName: { type: 'string', description: 'First name' },
+        surname: { type: 'string', description: 'Last name' },
+        displayName: { type: 'string', description: 'Display name (default: built from first and last name)' },
+        emails: { type: 'array', items: { type: 'string' }, description: 'Email addresses' },
+        businessPhones: { type: 'array', items: { type: 'string' }, description: 'Business phone numbers' },
+        mobilePhone: { type: 'string', description: 'Mobile phone number' },
+        companyName: { type: 'string', description: 'Company' },
+        jobTitle: { type: 'string', description: 'Job title' },
+        department: { type: 'string', description: 'Department' },
+        notes: { type: 'string', description: 'Personal notes' },
+        folder: { type: 'string', description: 'Contact folder name or ID (default: your main contacts folder)' },
+      },
+    },
+    handler: createContact,
+  },
+  {
+    name: 'update-contact',
+    description: `Update a saved contact. Only provided fields are changed; emails and businessPhones, when given, replace the existing lists.
+
+Example: { "contactId": "xxx", "jobTitle": "Head of Sales", "mobilePhone": "+1 555 0199" }`,
+    readOnly: false,
+    requiredScopes: ['Contacts.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        contactId: { type: 'string', description: 'The contact ID (from list-contacts)' },
+        givenName: { type: 'string', description: 'First name' },
+        surname: { type: 'string', description: 'Last name' },
+        displayName: { type: 'string', description: 'Display name' },
+        emails: { type: 'array', items: { type: 'string' }, description: 'Email addresses (replaces existing)' },
+        businessPhones: { type: 'array', items: { type: 'string' }, description: 'Business phone numbers (replaces existing)' },
+        mobilePhone: { type: 'string', description: 'Mobile phone number' },
+        companyName: { type: 'string', description: 'Company' },
+        jobTitle: { type: 'string', description: 'Job title' },
+        department: { type: 'string', description: 'Department' },
+        notes: { type: 'string', description: 'Personal notes' },
+      },
+      required: ['contactId'],
+    },
+    handler: updateContact,
+  },
+  {
+    name: 'delete-contact',
+    description: 'Delete a saved contact (moves it to Deleted Items). Confirm with the user before deleting.',
+    readOnly: false,
+    requiredScopes: ['Contacts.ReadWrite'],
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        contactId: {
+          type: 'string',
+          description: 'The contact ID (from list-contacts)',
+        },
+      },
+      required: ['contactId'],
+    },
+    handler: deleteContact,
+  },
 ];
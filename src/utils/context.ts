@@ -15,6 +15,10 @@ export interface RequestContext {
   accessToken: string;
   /** User identifier (email or object ID) */
   userId?: string;
+  /** Tenant (directory) ID the token was issued for */
+  tenantId?: string;
+  /** Shared/delegated mailbox that /me paths are redirected to (unset = own mailbox) */
+  mailbox?: string;
 }
 
 /**
@@ -54,6 +58,35 @@ export function getContextUserId(): string | undefined {
   return requestStorage.getStore()?.userId;
 }
 
+/**
+ * Get the tenant ID from the current request context
+ */
+export function getContextTenantId(): string | undefined {
+  return requestStorage.getStore()?.tenantId;
+}
+
+/**
+ * Run a function against another user's mailbox (or back against your own with undefined).
+ * Graph requests to /me/... inside the callback are sent to /users/{mailbox}/... instead.
+ */
+export function runWithMailbox<T>(
+  mailbox: string | undefined,
+  fn: () => T | Promise<T>
+): T | Promise<T> {
+  const current = requestStorage.getStore();
+  if (!current) {
+    return fn();
+  }
+  return requestStorage.run({ ...current, mailbox }, fn);
+}
+
+/**
+ * Get the shared/delegated mailbox from the current request context
+ */
+export function getContextMailbox(): string | undefined {
+  return requestStorage.getStore()?.mailbox;
+}
+
 /**
  * Check if code is running within a request context
  */
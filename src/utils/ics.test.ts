@@ -0,0 +1,374 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseIcs,
+  parseRRule,
+  toSimpleRecurrence,
+  fromGraphRecurrence,
+  serializeIcs,
+  buildTimeZone,
+  type IcsEvent,
+} from './ics.js';
+
+const ics = (...lines: string[]) => lines.join('\r\n') + '\r\n';
+
+describe('parseIcs', () => {
+  it('parses TZID, UTC and floating times', () => {
+    const [zoned, utc, floating] = parseIcs(ics(
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Europe/Berlin:20260120T090000',
+      'DTEND;TZID=Europe/Berlin:20260120T100000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20260120T080000Z',
+      'DTEND:20260120T090000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20260120T090000',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ));
+    
+    expect(zoned.start).toEqual({ dateTime: '2026-01-20T09:00:00', timeZone: 'Europe/Berlin' });
+    expect(zoned.end).toEqual({ dateTime: '2026-01-20T10:00:00', timeZone: 'Europe/Berlin' });
+    expect(utc.start).toEqual({ dateTime: '2026-01-20T08:00:00', timeZone: 'UTC' });
+    expect(floating.start.timeZone).toBeUndefined();
+    expect(floating.end).toEqual(floating.start);
+  });
+  
+  it('keeps quoted Windows time zone names', () => {
+    const [event] = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART;TZID="W. Europe Standard Time":20260120T090000',
+      'DTEND;TZID="W. Europe Standard Time":20260120T093000',
+      'END:VEVENT'
+    ));
+    
+    expect(event.start.timeZone).toBe('W. Europe Standard Time');
+  });
+  
+  it('derives the end from DURATION and defaults all-day events to one day', () => {
+    const [timed, daily, allDay] = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/New_York:20260308T013000',
+      'DURATION:PT1H30M',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/New_York:20260307T090000',
+      'DURATION:P1D',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261231',
+      'END:VEVENT'
+    ));
+    
+    // Exact time crosses the spring-forward gap, whole days keep the wall-clock time
+    expect(timed.end).toEqual({ dateTime: '2026-03-08T04:00:00', timeZone: 'America/New_York' });
+    expect(daily.end).toEqual({ dateTime: '2026-03-08T09:00:00', timeZone: 'America/New_York' });
+    expect(allDay.start).toEqual({ dateTime: '2026-12-31T00:00:00', isDate: true });
+    expect(allDay.end).toEqual({ dateTime: '2027-01-01T00:00:00', isDate: true });
+  });
+  
+  it('unfolds lines, unescapes text and skips nested components', () => {
+    const [event] = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'UID:abc-123',
+      'SUMMARY:Planning\\, Q3\\; budget',
+      'DESCRIPTION:Line one\\nLine two with a long text that is folded ',
+      ' across lines',
+      'DTSTART:20260120T080000Z',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT'
+    ));
+    
+    expect(event.uid).toBe('abc-123');
+    expect(event.summary).toBe('Planning, Q3; budget');
+    expect(event.description).toBe('Line one\nLine two with a long text that is folded across lines');
+  });
+  
+  it('parses organizer and attendees', () => {
+    const [event] = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART:20260120T080000Z',
+      'ORGANIZER;CN="Doe, Jane":mailto:jane@example.com',
+      'ATTENDEE;CN=Bob;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:bob@example.com',
+      'ATTENDEE;ROLE=OPT-PARTICIPANT:MAILTO:ann@example.com',
+      'ATTENDEE;CUTYPE=ROOM:mailto:room1@example.com',
+      'END:VEVENT'
+    ));
+    
+    expect(event.organizer).toEqual({ email: 'jane@example.com', name: 'Doe, Jane' });
+    expect(event.attendees).toEqual([
+      { email: 'bob@example.com', name: 'Bob', role: 'required', status: 'ACCEPTED' },
+      { email: 'ann@example.com', name: undefined, role: 'optional', status: undefined },
+      { email: 'room1@example.com', name: undefined, role: 'resource', status: undefined },
+    ]);
+  });
+  
+  it('collects RRULE, EXDATE and RECURRENCE-ID', () => {
+    const [master, override] = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Europe/Berlin:20260105T090000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO',
+      'EXDATE;TZID=Europe/Berlin:20260112T090000,20260119T090000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'RECURRENCE-ID;TZID=Europe/Berlin:20260126T090000',
+      'DTSTART;TZID=Europe/Berlin:20260126T110000',
+      'END:VEVENT'
+    ));
+    
+    expect(master.rrule).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(master.exdates).toHaveLength(2);
+    expect(master.exdates?.[1]).toEqual({ dateTime: '2026-01-19T09:00:00', timeZone: 'Europe/Berlin' });
+    expect(override.recurrenceId).toEqual({ dateTime: '2026-01-26T09:00:00', timeZone: 'Europe/Berlin' });
+  });
+  
+  it('rejects events without DTSTART', () => {
+    expect(() => parseIcs(ics('BEGIN:VEVENT', 'SUMMARY:Broken', 'END:VEVENT'))).toThrow('DTSTART');
+  });
+});
+
+describe('RRULE to recurrence', () => {
+  it('parses the rule parts', () => {
+    expect(parseRRule('FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=10;WKST=SU')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      count: 10,
+      byDay: [{ day: 'tuesday', ordinal: 2 }, { day: 'friday', ordinal: -1 }],
+      weekStart: 'sunday',
+    });
+  });
+  
+  it('maps weekly rules with days', () => {
+    expect(toSimpleRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6')).toEqual({
+      pattern: 'weekly',
+      interval: 2,
+      daysOfWeek: ['monday', 'wednesday'],
+      numberOfOccurrences: 6,
+    });
+  });
+  
+  it('maps daily rules on weekdays to a weekly pattern', () => {
+    expect(toSimpleRecurrence('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR')).toEqual({
+      pattern: 'weekly',
+      interval: 1,
+      daysOfWeek: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+    });
+  });
+  
+  it('maps relative monthly rules from BYDAY positions and BYSETPOS', () => {
+    expect(toSimpleRecurrence('FREQ=MONTHLY;BYDAY=2TU')).toMatchObject({
+      pattern: 'monthly',
+      daysOfWeek: ['tuesday'],
+      weekIndex: 'second',
+    });
+    expect(toSimpleRecurrence('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1')).toMatchObject({
+      pattern: 'monthly',
+      daysOfWeek: ['friday'],
+      weekIndex: 'last',
+    });
+  });
+  
+  it('maps absolute monthly and yearly rules', () => {
+    expect(toSimpleRecurrence('FREQ=MONTHLY;BYMONTHDAY=15')).toMatchObject({ pattern: 'monthly', dayOfMonth: 15 });
+    expect(toSimpleRecurrence('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH')).toMatchObject({
+      pattern: 'yearly',
+      month: 11,
+      daysOfWeek: ['thursday'],
+      weekIndex: 'fourth',
+    });
+  });
+  
+  it('resolves a UTC UNTIL to the local end date', () => {
+    // 23:30 UTC on Jan 31 is already Feb 1 in Berlin, but still Jan 31 in New York
+    expect(toSimpleRecurrence('FREQ=DAILY;UNTIL=20260131T233000Z', 'Europe/Berlin').endDate).toBe('2026-02-01');
+    expect(toSimpleRecurrence('FREQ=DAILY;UNTIL=20260131T233000Z', 'America/New_York').endDate).toBe('2026-01-31');
+    expect(toSimpleRecurrence('FREQ=DAILY;UNTIL=20260131').endDate).toBe('2026-01-31');
+  });
+  
+  it('rejects rules Outlook cannot represent', () => {
+    expect(() => toSimpleRecurrence('FREQ=HOURLY')).toThrow('not supported');
+    expect(() => toSimpleRecurrence('FREQ=DAILY;BYHOUR=9,17')).toThrow('BYHOUR');
+    expect(() => toSimpleRecurrence('FREQ=MONTHLY;BYDAY=MO')).toThrow('week position');
+    expect(() => toSimpleRecurrence('FREQ=MONTHLY;BYDAY=5MO')).toThrow('Week position 5');
+    expect(() => toSimpleRecurrence('FREQ=YEARLY;BYMONTH=1,7')).toThrow('single month');
+  });
+});
+
+describe('Graph recurrence to RRULE', () => {
+  it('converts weekly patterns', () => {
+    expect(fromGraphRecurrence({
+      pattern: { type: 'weekly', interval: 2, daysOfWeek: ['monday', 'thursday'], firstDayOfWeek: 'sunday' },
+      range: { type: 'numbered', numberOfOccurrences: 8 },
+    })).toBe('FREQ=WEEKLY;BYDAY=MO,TH;WKST=SU;INTERVAL=2;COUNT=8');
+  });
+  
+  it('converts relative patterns', () => {
+    expect(fromGraphRecurrence({
+      pattern: { type: 'relativeMonthly', interval: 1, daysOfWeek: ['tuesday'], index: 'second' },
+      range: { type: 'noEnd' },
+    })).toBe('FREQ=MONTHLY;BYDAY=2TU');
+    expect(fromGraphRecurrence({
+      pattern: { type: 'relativeYearly', interval: 1, month: 5, daysOfWeek: ['saturday', 'sunday'], index: 'last' },
+      range: { type: 'noEnd' },
+    })).toBe('FREQ=YEARLY;BYMONTH=5;BYDAY=SA,SU;BYSETPOS=-1');
+  });
+  
+  it('ends UNTIL at the end of the local end date', () => {
+    const recurrence = {
+      pattern: { type: 'absoluteMonthly', interval: 1, dayOfMonth: 15 },
+      range: { type: 'endDate', endDate: '2026-12-31', recurrenceTimeZone: 'Europe/Berlin' },
+    };
+    
+    expect(fromGraphRecurrence(recurrence)).toBe('FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231T225959Z');
+    // Summer time: UTC+2
+    expect(fromGraphRecurrence({ ...recurrence, range: { ...recurrence.range, endDate: '2026-07-31' } }))
+      .toBe('FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20260731T215959Z');
+    expect(fromGraphRecurrence(recurrence, { isAllDay: true })).toBe('FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231');
+  });
+  
+  it('round-trips through the simplified recurrence', () => {
+    const rrule = fromGraphRecurrence({
+      pattern: { type: 'relativeMonthly', interval: 3, daysOfWeek: ['friday'], index: 'last' },
+      range: { type: 'endDate', endDate: '2027-06-30', recurrenceTimeZone: 'America/New_York' },
+    });
+    
+    expect(toSimpleRecurrence(rrule, 'America/New_York')).toEqual({
+      pattern: 'monthly',
+      interval: 3,
+      daysOfWeek: ['friday'],
+      weekIndex: 'last',
+      endDate: '2027-06-30',
+    });
+  });
+});
+
+describe('buildTimeZone', () => {
+  it('derives European DST rules', () => {
+    const lines = buildTimeZone('Europe/Berlin', 2026);
+    
+    expect(lines).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Berlin',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20260329T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20261025T030000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+  
+  it('derives US DST rules', () => {
+    const lines = buildTimeZone('America/New_York', 2026);
+    
+    expect(lines).toContain('DTSTART:20260308T020000');
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+    expect(lines).toContain('DTSTART:20261101T020000');
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+    expect(lines).toContain('TZOFFSETTO:-0400');
+  });
+  
+  it('handles southern hemisphere and fixed-offset zones', () => {
+    const sydney = buildTimeZone('Australia/Sydney', 2026);
+    expect(sydney).toContain('RRULE:FREQ=YEARLY;BYMONTH=4;BYDAY=1SU');
+    expect(sydney).toContain('RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=1SU');
+    
+    expect(buildTimeZone('Asia/Kolkata', 2026)).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Kolkata',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0530',
+      'TZOFFSETTO:+0530',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+});
+
+describe('serializeIcs', () => {
+  const event: IcsEvent = {
+    uid: 'event-1@example.com',
+    summary: 'Weekly sync; team, all',
+    description: 'Agenda:\n- Updates',
+    location: 'Room 1',
+    start: { dateTime: '2026-01-05T09:00:00', timeZone: 'Europe/Berlin' },
+    end: { dateTime: '2026-01-05T09:30:00', timeZone: 'Europe/Berlin' },
+    rrule: 'FREQ=WEEKLY;BYDAY=MO',
+    organizer: { email: 'jane@example.com', name: 'Doe, Jane' },
+    attendees: [
+      { email: 'bob@example.com', name: 'Bob', role: 'required', status: 'ACCEPTED' },
+      { email: 'ann@example.com', role: 'optional', status: 'NEEDS-ACTION' },
+    ],
+  };
+  
+  it('writes a calendar with time zone definitions and CRLF line endings', () => {
+    const text = serializeIcs([event], { now: new Date('2026-01-01T12:00:00Z') });
+    const lines = text.split('\r\n');
+    
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('DTSTAMP:20260101T120000Z');
+    expect(lines).toContain('TZID:Europe/Berlin');
+    expect(lines).toContain('DTSTART;TZID=Europe/Berlin:20260105T090000');
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO');
+    expect(lines).toContain('SUMMARY:Weekly sync\\; team\\, all');
+    expect(lines).toContain('ORGANIZER;CN="Doe, Jane":mailto:jane@example.com');
+    // Longer than 75 octets, so it is folded
+    expect(text.replace(/\r\n /g, '')).toContain('ATTENDEE;CN=Bob;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:bob@example.com');
+    expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+  
+  it('writes UTC and all-day values without TZID and skips VTIMEZONE', () => {
+    const text = serializeIcs([
+      { uid: 'a', start: { dateTime: '2026-01-05T08:00:00', timeZone: 'UTC' } },
+      { uid: 'b', start: { dateTime: '2026-01-06T00:00:00', isDate: true }, end: { dateTime: '2026-01-07T00:00:00', isDate: true } },
+    ]);
+    
+    expect(text).toContain('DTSTART:20260105T080000Z');
+    expect(text).toContain('DTSTART;VALUE=DATE:20260106');
+    expect(text).toContain('DTEND;VALUE=DATE:20260107');
+    expect(text).not.toContain('VTIMEZONE');
+  });
+  
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const text = serializeIcs([{
+      uid: 'long',
+      start: { dateTime: '2026-01-05T08:00:00', timeZone: 'UTC' },
+      description: 'Grüße aus München — '.repeat(20),
+    }]);
+    
+    for (const line of text.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(text).not.toContain('�');
+  });
+  
+  it('round-trips through parseIcs', () => {
+    const [parsed] = parseIcs(serializeIcs([event]));
+    
+    expect(parsed).toEqual({
+      ...event,
+      attendees: [
+        event.attendees![0],
+        { ...event.attendees![1], name: undefined },
+      ],
+    });
+  });
+  
+  it('rejects zones without time zone data', () => {
+    expect(() => serializeIcs([{ start: { dateTime: '2026-01-05T08:00:00', timeZone: 'Not/AZone' } }]))
+      .toThrow('Unknown time zone');
+  });
+});
@@ -0,0 +1,967 @@
+/**
+ * iCalendar (RFC 5545) parsing and serialization
+ *
+ * Pure helpers without Graph calls. Recurrence rules are translated to the
+ * simplified recurrence input of the calendar tools when importing, and from
+ * Graph's patternedRecurrence when exporting. Time zone definitions
+ * (VTIMEZONE) are derived from the runtime's IANA time zone data.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export type WeekIndex = 'first' | 'second' | 'third' | 'fourth' | 'last';
+
+export interface IcsDateTime {
+  /** Wall-clock time as YYYY-MM-DDTHH:mm:ss */
+  dateTime: string;
+  /** TZID, 'UTC' for times ending in Z, undefined for floating times */
+  timeZone?: string;
+  /** Date without time (VALUE=DATE), used by all-day events */
+  isDate?: boolean;
+}
+
+export interface IcsPerson {
+  email: string;
+  name?: string;
+}
+
+export interface IcsAttendee extends IcsPerson {
+  role: 'required' | 'optional' | 'resource';
+  /** PARTSTAT value, e.g. ACCEPTED, DECLINED, TENTATIVE, NEEDS-ACTION */
+  status?: string;
+}
+
+export interface IcsEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  start: IcsDateTime;
+  end?: IcsDateTime;
+  /** RRULE value without the "RRULE:" prefix */
+  rrule?: string;
+  exdates?: IcsDateTime[];
+  /** Set on modified occurrences of a recurring event */
+  recurrenceId?: IcsDateTime;
+  organizer?: IcsPerson;
+  attendees?: IcsAttendee[];
+  /** STATUS value, e.g. CONFIRMED, TENTATIVE, CANCELLED */
+  status?: string;
+  /** TRANSP:TRANSPARENT - the event doesn't block time */
+  transparent?: boolean;
+  url?: string;
+}
+
+export interface RecurrenceRule {
+  freq: string;
+  interval: number;
+  count?: number;
+  until?: IcsDateTime;
+  byDay?: Array<{ day: Weekday; ordinal?: number }>;
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  weekStart?: Weekday;
+}
+
+/**
+ * Recurrence in the simplified form accepted by create-calendar-event
+ */
+export interface SimpleRecurrence {
+  pattern: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  daysOfWeek?: Weekday[];
+  dayOfMonth?: number;
+  weekIndex?: WeekIndex;
+  month?: number;
+  endDate?: string;
+  numberOfOccurrences?: number;
+}
+
+/**
+ * Graph patternedRecurrence as returned on series master events
+ */
+export interface GraphRecurrence {
+  pattern: {
+    type: string;
+    interval?: number;
+    daysOfWeek?: string[];
+    dayOfMonth?: number;
+    month?: number;
+    index?: string;
+    firstDayOfWeek?: string;
+  };
+  range: {
+    type: string;
+    startDate?: string;
+    endDate?: string;
+    numberOfOccurrences?: number;
+    recurrenceTimeZone?: string;
+  };
+}
+
+const ICS_WEEKDAYS: Record<string, Weekday> = {
+  SU: 'sunday',
+  MO: 'monday',
+  TU: 'tuesday',
+  WE: 'wednesday',
+  TH: 'thursday',
+  FR: 'friday',
+  SA: 'saturday',
+};
+
+const WEEKDAY_CODES: Record<Weekday, string> = {
+  sunday: 'SU',
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+};
+
+const WEEK_INDEXES: Record<number, WeekIndex> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last',
+};
+
+const WEEK_INDEX_ORDINALS: Record<WeekIndex, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  last: -1,
+};
+
+/** RRULE parts Graph recurrence patterns have no equivalent for */
+const UNSUPPORTED_RRULE_PARTS = ['BYSECOND', 'BYMINUTE', 'BYHOUR', 'BYWEEKNO', 'BYYEARDAY'];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ============================================================================
+// Text and content lines
+// ============================================================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Split on a separator, ignoring separators inside double quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  
+  return parts;
+}
+
+/**
+ * Parse "NAME;PARAM=value;PARAM="quoted":value" into its parts
+ */
+function parseContentLine(line: string): ContentLine | undefined {
+  let inQuotes = false;
+  let colon = -1;
+  
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  
+  if (colon === -1) {
+    return undefined;
+  }
+  
+  const [name, ...rawParams] = splitOutsideQuotes(line.substring(0, colon), ';');
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const separator = raw.indexOf('=');
+    if (separator === -1) continue;
+    params[raw.substring(0, separator).toUpperCase()] = raw.substring(separator + 1).replace(/^"(.*)"$/, '$1');
+  }
+  
+  return { name: name.toUpperCase(), params, value: line.substring(colon + 1) };
+}
+
+/**
+ * Join folded lines (CRLF followed by a space or tab) and split into content lines
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+}
+
+/**
+ * Fold a content line to at most 75 octets per line without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = lines.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      lines.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  lines.push(current);
+  
+  return lines.join('\r\n ');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Parameter values can't contain double quotes; quote them when they contain separators
+ */
+function formatParamValue(value: string): string {
+  const cleaned = value.replace(/"/g, '');
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+// ============================================================================
+// Dates, durations and time zones
+// ============================================================================
+
+/**
+ * Parse a DATE or DATE-TIME value using the property's VALUE and TZID parameters
+ */
+function parseDateTime(value: string, params: Record<string, string> = {}): IcsDateTime {
+  const trimmed = value.trim();
+  
+  const date = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date) {
+    return { dateTime: `${date[1]}-${date[2]}-${date[3]}T00:00:00`, isDate: true };
+  }
+  
+  const dateTime = trimmed.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!dateTime || params.VALUE === 'DATE') {
+    throw new Error(`Invalid iCalendar date "${value}"`);
+  }
+  
+  const [, year, month, day, hour, minute, second, utc] = dateTime;
+  return {
+    dateTime: `${year}-${month}-${day}T${hour}:${minute}:${second}`,
+    timeZone: utc ? 'UTC' : params.TZID,
+  };
+}
+
+/**
+ * Format as an iCalendar DATE or DATE-TIME value (without TZID)
+ */
+function formatDateTimeValue(value: IcsDateTime): string {
+  const digits = value.dateTime.replace(/[-:]/g, '');
+  if (value.isDate) {
+    return digits.substring(0, 8);
+  }
+  return digits.substring(0, 15) + (value.timeZone === 'UTC' ? 'Z' : '');
+}
+
+/**
+ * Format a date-time property, e.g. DTSTART;TZID=Europe/Berlin:20260120T090000
+ */
+function formatDateTimeProperty(name: string, value: IcsDateTime): string {
+  if (value.isDate) {
+    return `${name};VALUE=DATE:${formatDateTimeValue(value)}`;
+  }
+  if (value.timeZone && value.timeZone !== 'UTC') {
+    return `${name};TZID=${formatParamValue(value.timeZone)}:${formatDateTimeValue(value)}`;
+  }
+  return `${name}:${formatDateTimeValue(value)}`;
+}
+
+/**
+ * Wall-clock time as milliseconds, treating it as if it were UTC
+ */
+function wallClockToMs(dateTime: string): number {
+  const [date, time = '00:00:00'] = dateTime.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second] = time.substring(0, 8).split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hour || 0, minute || 0, second || 0);
+}
+
+function msToWallClock(ms: number): string {
+  return new Date(ms).toISOString().substring(0, 19);
+}
+
+/** A DURATION split into nominal days (incl. weeks) and exact elapsed time */
+interface IcsDuration {
+  days: number;
+  ms: number;
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D, P2W)
+ * RFC 5545 treats days and weeks as calendar days and the time part as exact
+ * elapsed time, which differ across a DST transition.
+ */
+function parseDuration(value: string): IcsDuration {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid iCalendar duration "${value}"`);
+  }
+  
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const factor = sign === '-' ? -1 : 1;
+  return {
+    days: factor * (Number(weeks || 0) * 7 + Number(days || 0)),
+    ms: factor * ((Number(hours || 0) * 60 + Number(minutes || 0)) * MINUTE_MS + Number(seconds || 0) * 1000),
+  };
+}
+
+/**
+ * Add a duration to a date-time, keeping its time zone
+ */
+function addDuration(start: IcsDateTime, duration: IcsDuration): IcsDateTime {
+  const wallClock = msToWallClock(wallClockToMs(start.dateTime) + duration.days * DAY_MS);
+  if (!duration.ms) {
+    return { ...start, dateTime: wallClock };
+  }
+  
+  // Zoned times add the exact part in UTC; UTC and floating times have no transitions
+  const zoned = start.timeZone && start.timeZone !== 'UTC' && isKnownTimeZone(start.timeZone);
+  const dateTime = zoned
+    ? utcToZoned(zonedToUtc(wallClock, start.timeZone!) + duration.ms, start.timeZone!)
+    : msToWallClock(wallClockToMs(wallClock) + duration.ms);
+  
+  return { ...start, dateTime };
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether the runtime knows the IANA time zone (needed to build VTIMEZONE)
+ */
+export function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * UTC offset in minutes of an IANA time zone at the given instant
+ */
+function getUtcOffset(timeZone: string, utcMs: number): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(utcMs)).map(p => [p.type, p.value]));
+  const wallClock = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  );
+  
+  return Math.round((wallClock - Math.floor(utcMs / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Convert a wall-clock time in an IANA time zone to a UTC instant
+ */
+function zonedToUtc(dateTime: string, timeZone: string): number {
+  const wallClock = wallClockToMs(dateTime);
+  // The second pass corrects the offset guess for times near a DST transition
+  const guess = wallClock - getUtcOffset(timeZone, wallClock) * MINUTE_MS;
+  return wallClock - getUtcOffset(timeZone, guess) * MINUTE_MS;
+}
+
+/**
+ * Convert a UTC instant to wall-clock time in an IANA time zone
+ */
+export function utcToZoned(utcMs: number, timeZone: string): string {
+  return msToWallClock(utcMs + getUtcOffset(timeZone, utcMs) * MINUTE_MS);
+}
+
+/**
+ * Format an offset in minutes as +HHMM / -HHMM
+ */
+function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Build a VTIMEZONE component for an IANA time zone
+ *
+ * Offset changes are located in the given year and repeated yearly by
+ * weekday rule (e.g. last Sunday of March), which is how DST rules are defined.
+ */
+export function buildTimeZone(timeZone: string, year: number): string[] {
+  const yearStart = Date.UTC(year, 0, 1);
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+  
+  let previous = getUtcOffset(timeZone, yearStart);
+  for (let day = yearStart + DAY_MS; day <= yearEnd; day += DAY_MS) {
+    const current = getUtcOffset(timeZone, day);
+    if (current === previous) continue;
+    
+    // Narrow the change down to the minute
+    let low = (day - DAY_MS) / MINUTE_MS;
+    let high = day / MINUTE_MS;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (getUtcOffset(timeZone, middle * MINUTE_MS) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    
+    transitions.push({ at: high * MINUTE_MS, from: previous, to: current });
+    previous = current;
+  }
+  
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(previous);
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD'
+    );
+  }
+  
+  for (const transition of transitions) {
+    // DTSTART is the local time the change happens, in the offset before it
+    const local = new Date(transition.at + transition.from * MINUTE_MS);
+    const dayOfMonth = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const ordinal = dayOfMonth + 7 > daysInMonth ? -1 : Math.ceil(dayOfMonth / 7);
+    const weekday = Object.keys(ICS_WEEKDAYS)[local.getUTCDay()];
+    const component = transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD';
+    
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatDateTimeValue({ dateTime: msToWallClock(local.getTime()) })}`,
+      `TZOFFSETFROM:${formatUtcOffset(transition.from)}`,
+      `TZOFFSETTO:${formatUtcOffset(transition.to)}`
+    );
+    // Regular DST has exactly two changes a year; one-off changes don't repeat
+    if (transitions.length === 2) {
+      lines.push(`RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${ordinal}${weekday}`);
+    }
+    lines.push(`END:${component}`);
+  }
+  
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// ============================================================================
+// Recurrence rules
+// ============================================================================
+
+function parseWeekday(code: string): Weekday {
+  const day = ICS_WEEKDAYS[code.toUpperCase()];
+  if (!day) {
+    throw new Error(`Invalid weekday "${code}" in RRULE`);
+  }
+  return day;
+}
+
+function parseNumberList(value: string): number[] {
+  return value.split(',').map(part => {
+    const number = Number(part);
+    if (!Number.isInteger(number)) {
+      throw new Error(`Invalid number "${part}" in RRULE`);
+    }
+    return number;
+  });
+}
+
+/**
+ * Parse an RRULE value such as FREQ=MONTHLY;BYDAY=2TU;COUNT=10
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const parts: Record<string, string> = {};
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    parts[part.substring(0, separator).toUpperCase()] = part.substring(separator + 1).trim();
+  }
+  
+  if (!parts.FREQ) {
+    throw new Error(`RRULE "${value}" has no FREQ`);
+  }
+  
+  const unsupported = UNSUPPORTED_RRULE_PARTS.filter(part => part in parts);
+  if (unsupported.length) {
+    throw new Error(`RRULE parts ${unsupported.join(', ')} can't be represented in Outlook recurrence patterns`);
+  }
+  
+  const rule: RecurrenceRule = {
+    freq: parts.FREQ.toUpperCase(),
+    interval: parts.INTERVAL ? Number(parts.INTERVAL) : 1,
+  };
+  
+  if (parts.COUNT) rule.count = Number(parts.COUNT);
+  if (parts.UNTIL) rule.until = parseDateTime(parts.UNTIL);
+  if (parts.BYMONTHDAY) rule.byMonthDay = parseNumberList(parts.BYMONTHDAY);
+  if (parts.BYMONTH) rule.byMonth = parseNumberList(parts.BYMONTH);
+  if (parts.BYSETPOS) rule.bySetPos = parseNumberList(parts.BYSETPOS);
+  if (parts.WKST) rule.weekStart = parseWeekday(parts.WKST);
+  
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(',').map(entry => {
+      const match = entry.trim().match(/^([+-]?\d{1,2})?([A-Za-z]{2})$/);
+      if (!match) {
+        throw new Error(`Invalid BYDAY entry "${entry}" in RRULE`);
+      }
+      return match[1]
+        ? { day: parseWeekday(match[2]), ordinal: Number(match[1]) }
+        : { day: parseWeekday(match[2]) };
+    });
+  }
+  
+  return rule;
+}
+
+function toWeekIndex(ordinal: number): WeekIndex {
+  const index = WEEK_INDEXES[ordinal];
+  if (!index) {
+    throw new Error(`Week position ${ordinal} is not supported (use 1-4 or -1 for last)`);
+  }
+  return index;
+}
+
+/**
+ * Convert an RRULE to the simplified recurrence of create-calendar-event
+ *
+ * Throws for rules Outlook can't represent (e.g. hourly, several months,
+ * "every Monday of the month"). Pass the event's IANA time zone so a UTC
+ * UNTIL resolves to the right local end date.
+ */
+export function toSimpleRecurrence(rrule: string | RecurrenceRule, timeZone?: string): SimpleRecurrence {
+  const rule = typeof rrule === 'string' ? parseRRule(rrule) : rrule;
+  const recurrence: SimpleRecurrence = { pattern: 'daily', interval: rule.interval };
+  const byDay = rule.byDay || [];
+  
+  switch (rule.freq) {
+    case 'DAILY':
+      // Daily on specific days (e.g. weekdays) is a weekly pattern in Outlook
+      if (byDay.length) {
+        if (rule.interval > 1) {
+          throw new Error('RRULE with FREQ=DAILY, INTERVAL > 1 and BYDAY is not supported');
+        }
+        recurrence.pattern = 'weekly';
+        recurrence.daysOfWeek = byDay.map(d => d.day);
+      }
+      break;
+    case 'WEEKLY':
+      recurrence.pattern = 'weekly';
+      if (byDay.some(d => d.ordinal !== undefined)) {
+        throw new Error('Weekly RRULE with numbered BYDAY entries is not supported');
+      }
+      if (byDay.length) {
+        recurrence.daysOfWeek = byDay.map(d => d.day);
+      }
+      break;
+    case 'MONTHLY':
+    case 'YEARLY': {
+      recurrence.pattern = rule.freq === 'MONTHLY' ? 'monthly' : 'yearly';
+      
+      if (rule.byMonth?.length) {
+        if (rule.freq === 'MONTHLY' || rule.byMonth.length > 1) {
+          throw new Error('RRULE with BYMONTH is only supported for yearly rules with a single month');
+        }
+        recurrence.month = rule.byMonth[0];
+      }
+      
+      if (byDay.length) {
+        // "2TU" carries the position itself, "TU;BYSETPOS=2" puts it in BYSETPOS
+        const ordinals = new Set(byDay.map(d => d.ordinal ?? rule.bySetPos?.[0]));
+        const [ordinal] = ordinals;
+        if (ordinals.size > 1 || ordinal === undefined || (rule.bySetPos?.length ?? 0) > 1) {
+          throw new Error('Monthly and yearly RRULEs need one week position (e.g. BYDAY=2TU or BYDAY=-1FR)');
+        }
+        recurrence.daysOfWeek = byDay.map(d => d.day);
+        recurrence.weekIndex = toWeekIndex(ordinal);
+      } else if (rule.byMonthDay?.length) {
+        const [dayOfMonth] = rule.byMonthDay;
+        if (rule.byMonthDay.length > 1 || dayOfMonth < 1) {
+          throw new Error('RRULE with several or negative BYMONTHDAY values is not supported');
+        }
+        recurrence.dayOfMonth = dayOfMonth;
+      }
+      break;
+    }
+    default:
+      throw new Error(`RRULE frequency ${rule.freq} is not supported (use DAILY, WEEKLY, MONTHLY or YEARLY)`);
+  }
+  
+  if (rule.count) {
+    recurrence.numberOfOccurrences = rule.count;
+  } else if (rule.until) {
+    const until = rule.until.timeZone === 'UTC' && timeZone && isKnownTimeZone(timeZone)
+      ? utcToZoned(wallClockToMs(rule.until.dateTime), timeZone)
+      : rule.until.dateTime;
+    recurrence.endDate = until.substring(0, 10);
+  }
+  
+  return recurrence;
+}
+
+/**
+ * Convert a Graph patternedRecurrence to an RRULE value
+ *
+ * UNTIL covers the whole end date in the recurrence time zone; for all-day
+ * events it is a plain date as RFC 5545 requires when DTSTART is a date.
+ */
+export function fromGraphRecurrence(
+  recurrence: GraphRecurrence,
+  options: { timeZone?: string; isAllDay?: boolean } = {}
+): string {
+  const { pattern, range } = recurrence;
+  const days = (pattern.daysOfWeek || []).map(day => WEEKDAY_CODES[day.toLowerCase() as Weekday]).filter(Boolean);
+  const parts: string[] = [];
+  
+  // Relative patterns with one day put the position on the day ("2TU"), otherwise in BYSETPOS
+  const addRelativeDays = () => {
+    const ordinal = WEEK_INDEX_ORDINALS[(pattern.index || 'first') as WeekIndex] ?? 1;
+    if (days.length === 1) {
+      parts.push(`BYDAY=${ordinal}${days[0]}`);
+    } else {
+      parts.push(`BYDAY=${days.join(',')}`, `BYSETPOS=${ordinal}`);
+    }
+  };
+  
+  switch (pattern.type) {
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      if (days.length) parts.push(`BYDAY=${days.join(',')}`);
+      if (pattern.firstDayOfWeek) parts.push(`WKST=${WEEKDAY_CODES[pattern.firstDayOfWeek.toLowerCase() as Weekday] || 'MO'}`);
+      break;
+    case 'absoluteMonthly':
+      parts.push('FREQ=MONTHLY', `BYMONTHDAY=${pattern.dayOfMonth}`);
+      break;
+    case 'relativeMonthly':
+      parts.push('FREQ=MONTHLY');
+      addRelativeDays();
+      break;
+    case 'absoluteYearly':
+      parts.push('FREQ=YEARLY', `BYMONTH=${pattern.month}`, `BYMONTHDAY=${pattern.dayOfMonth}`);
+      break;
+    case 'relativeYearly':
+      parts.push('FREQ=YEARLY', `BYMONTH=${pattern.month}`);
+      addRelativeDays();
+      break;
+    default:
+      throw new Error(`Unknown recurrence pattern "${pattern.type}"`);
+  }
+  
+  if (pattern.interval && pattern.interval > 1) {
+    parts.push(`INTERVAL=${pattern.interval}`);
+  }
+  
+  if (range.type === 'numbered' && range.numberOfOccurrences) {
+    parts.push(`COUNT=${range.numberOfOccurrences}`);
+  } else if (range.type === 'endDate' && range.endDate) {
+    const endDate = range.endDate.substring(0, 10);
+    if (options.isAllDay) {
+      parts.push(`UNTIL=${endDate.replace(/-/g, '')}`);
+    } else {
+      const timeZone = range.recurrenceTimeZone && isKnownTimeZone(range.recurrenceTimeZone)
+        ? range.recurrenceTimeZone
+        : options.timeZone;
+      const endOfDay = `${endDate}T23:59:59`;
+      const utc = timeZone && isKnownTimeZone(timeZone) ? zonedToUtc(endOfDay, timeZone) : wallClockToMs(endOfDay);
+      parts.push(`UNTIL=${formatDateTimeValue({ dateTime: msToWallClock(utc), timeZone: 'UTC' })}`);
+    }
+  }
+  
+  return parts.join(';');
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parsePerson(line: ContentLine): IcsPerson {
+  return {
+    email: line.value.replace(/^mailto:/i, '').trim(),
+    name: line.params.CN || undefined,
+  };
+}
+
+function parseAttendee(line: ContentLine): IcsAttendee {
+  const cuType = line.params.CUTYPE?.toUpperCase();
+  const role = line.params.ROLE?.toUpperCase();
+  
+  return {
+    ...parsePerson(line),
+    role: cuType === 'RESOURCE' || cuType === 'ROOM'
+      ? 'resource'
+      : role === 'OPT-PARTICIPANT' || role === 'NON-PARTICIPANT' ? 'optional' : 'required',
+    status: line.params.PARTSTAT?.toUpperCase(),
+  };
+}
+
+/**
+ * Parse the VEVENT components of iCalendar text
+ *
+ * Nested components (e.g. VALARM) are skipped. A missing DTEND is derived
+ * from DURATION, or one day for all-day events as RFC 5545 specifies.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | undefined;
+  let duration: IcsDuration | undefined;
+  let nestedDepth = 0;
+  
+  for (const rawLine of unfoldLines(text)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    
+    const component = line.value.trim().toUpperCase();
+    
+    if (line.name === 'BEGIN') {
+      if (current) {
+        nestedDepth++;
+      } else if (component === 'VEVENT') {
+        current = { attendees: [] };
+        duration = undefined;
+      }
+      continue;
+    }
+    
+    if (line.name === 'END') {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && component === 'VEVENT') {
+        if (!current.start) {
+          throw new Error('VEVENT without DTSTART');
+        }
+        
+        const event = current as IcsEvent;
+        if (!event.end) {
+          event.end = addDuration(event.start, duration ?? { days: event.start.isDate ? 1 : 0, ms: 0 });
+        }
+        if (!event.attendees?.length) {
+          delete event.attendees;
+        }
+        
+        events.push(event);
+        current = undefined;
+      }
+      continue;
+    }
+    
+    if (!current || nestedDepth > 0) continue;
+    
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(line.value);
+        break;
+      case 'DTSTART':
+        current.start = parseDateTime(line.value, line.params);
+        break;
+      case 'DTEND':
+        current.end = parseDateTime(line.value, line.params);
+        break;
+      case 'DURATION':
+        duration = parseDuration(line.value);
+        break;
+      case 'RRULE':
+        current.rrule = line.value.trim();
+        break;
+      case 'EXDATE':
+        current.exdates = [
+          ...(current.exdates || []),
+          ...line.value.split(',').map(value => parseDateTime(value, line.params)),
+        ];
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateTime(line.value, line.params);
+        break;
+      case 'ORGANIZER':
+        current.organizer = parsePerson(line);
+        break;
+      case 'ATTENDEE':
+        current.attendees!.push(parseAttendee(line));
+        break;
+      case 'STATUS':
+        current.status = line.value.trim().toUpperCase();
+        break;
+      case 'TRANSP':
+        current.transparent = line.value.trim().toUpperCase() === 'TRANSPARENT';
+        break;
+      case 'URL':
+        current.url = line.value.trim();
+        break;
+    }
+  }
+  
+  return events;
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function formatPerson(name: string, person: IcsPerson, params: string[] = []): string {
+  const cn = person.name ? [`CN=${formatParamValue(person.name)}`] : [];
+  return [name, ...cn, ...params].join(';') + `:mailto:${person.email}`;
+}
+
+function serializeEvent(event: IcsEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid || randomUUID()}`,
+    `DTSTAMP:${stamp}`,
+    formatDateTimeProperty('DTSTART', event.start),
+  ];
+  
+  if (event.end) lines.push(formatDateTimeProperty('DTEND', event.end));
+  if (event.recurrenceId) lines.push(formatDateTimeProperty('RECURRENCE-ID', event.recurrenceId));
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  for (const exdate of event.exdates || []) {
+    lines.push(formatDateTimeProperty('EXDATE', exdate));
+  }
+  
+  if (event.summary) lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.organizer) lines.push(formatPerson('ORGANIZER', event.organizer));
+  
+  for (const attendee of event.attendees || []) {
+    const params = attendee.role === 'resource'
+      ? ['CUTYPE=RESOURCE', 'ROLE=NON-PARTICIPANT']
+      : [`ROLE=${attendee.role === 'optional' ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT'}`];
+    if (attendee.status) params.push(`PARTSTAT=${attendee.status}`);
+    lines.push(formatPerson('ATTENDEE', attendee, params));
+  }
+  
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.transparent !== undefined) lines.push(`TRANSP:${event.transparent ? 'TRANSPARENT' : 'OPAQUE'}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize events to an iCalendar (VCALENDAR) document
+ *
+ * A VTIMEZONE is included for every TZID the events use, so the output
+ * imports correctly into clients that don't know the zone names.
+ */
+export function serializeIcs(
+  events: IcsEvent[],
+  options: { calendarName?: string; now?: Date } = {}
+): string {
+  const stamp = formatDateTimeValue({
+    dateTime: (options.now || new Date()).toISOString().substring(0, 19),
+    timeZone: 'UTC',
+  });
+  
+  // Earliest year per zone, so the time zone rules cover every event
+  const zoneYears = new Map<string, number>();
+  for (const event of events) {
+    for (const value of [event.start, event.end, event.recurrenceId, ...(event.exdates || [])]) {
+      if (!value?.timeZone || value.timeZone === 'UTC' || value.isDate) continue;
+      const year = Number(value.dateTime.substring(0, 4));
+      zoneYears.set(value.timeZone, Math.min(year, zoneYears.get(value.timeZone) ?? year));
+    }
+  }
+  
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//useful-outlook-mcp//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  
+  for (const [timeZone, year] of zoneYears) {
+    if (!isKnownTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone "${timeZone}": use an IANA name such as Europe/Berlin`);
+    }
+    lines.push(...buildTimeZone(timeZone, year));
+  }
+  
+  for (const event of events) {
+    lines.push(...serializeEvent(event, stamp));
+  }
+  
+  lines.push('END:VCALENDAR');
+  
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}